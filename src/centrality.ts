@@ -0,0 +1,194 @@
+/**
+ * Centrality metrics beyond raw degree: in-degree, PageRank, betweenness and
+ * HITS hub/authority scores. Results are cached per graph version, so repeated
+ * calls between refreshes are cheap.
+ */
+
+import { compileFilter, getGraph, type NoteFilter } from "./graph.js";
+import { vaultState } from "./vaults.js";
+
+export const CENTRALITY_METRICS = ["degree", "in-degree", "pagerank", "betweenness", "hub", "authority"] as const;
+export type CentralityMetric = (typeof CENTRALITY_METRICS)[number];
+
+export interface CentralityScore {
+  name: string;
+  path: string;
+  score: number;
+  outgoing: number;
+  incoming: number;
+}
+
+/** Above this many notes, betweenness is estimated from a sample of source notes. */
+const BETWEENNESS_SAMPLE_SIZE = 500;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-8;
+const DAMPING = 0.85;
+
+/** Directed note graph as index arrays: distinct links between real notes, self-links dropped. */
+interface IndexedGraph {
+  paths: string[];
+  out: number[][];
+  in: number[][];
+}
+
+function indexGraph(filter: NoteFilter): IndexedGraph {
+  const graph = getGraph();
+  const allow = compileFilter(filter);
+  const paths = [...graph.nodes.values()]
+    .filter((n) => !n.unresolved && allow(n))
+    .map((n) => n.path)
+    .sort();
+  const index = new Map(paths.map((p, i) => [p, i]));
+  const out: number[][] = paths.map(() => []);
+  const inc: number[][] = paths.map(() => []);
+
+  paths.forEach((p, i) => {
+    for (const target of graph.edges.get(p)?.keys() || []) {
+      const j = index.get(target);
+      if (j === undefined || j === i) continue;
+      out[i].push(j);
+      inc[j].push(i);
+    }
+  });
+  return { paths, out, in: inc };
+}
+
+function pagerank({ paths, out, in: inc }: IndexedGraph): number[] {
+  const n = paths.length;
+  let rank = new Array<number>(n).fill(1 / n);
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    // Notes without outgoing links spread their rank evenly
+    let dangling = 0;
+    for (let i = 0; i < n; i++) if (out[i].length === 0) dangling += rank[i];
+
+    const next = new Array<number>(n);
+    let delta = 0;
+    for (let i = 0; i < n; i++) {
+      let sum = 0;
+      for (const j of inc[i]) sum += rank[j] / out[j].length;
+      next[i] = (1 - DAMPING) / n + DAMPING * (sum + dangling / n);
+      delta += Math.abs(next[i] - rank[i]);
+    }
+    rank = next;
+    if (delta < TOLERANCE) break;
+  }
+  return rank;
+}
+
+function hits({ paths, out, in: inc }: IndexedGraph): { hub: number[]; authority: number[] } {
+  const n = paths.length;
+  let hub = new Array<number>(n).fill(1);
+  let authority = new Array<number>(n).fill(1);
+  const normalize = (v: number[]) => {
+    const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0)) || 1;
+    return v.map((x) => x / norm);
+  };
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const nextAuthority = normalize(inc.map((sources) => sources.reduce((s, j) => s + hub[j], 0)));
+    const nextHub = normalize(out.map((targets) => targets.reduce((s, j) => s + nextAuthority[j], 0)));
+    let delta = 0;
+    for (let i = 0; i < n; i++) delta += Math.abs(nextHub[i] - hub[i]) + Math.abs(nextAuthority[i] - authority[i]);
+    hub = nextHub;
+    authority = nextAuthority;
+    if (delta < TOLERANCE) break;
+  }
+  return { hub, authority };
+}
+
+/**
+ * Brandes betweenness over the undirected graph (how often a note sits on
+ * shortest paths between others). On large vaults only an evenly spaced sample
+ * of source notes is used and the result scaled up.
+ */
+function betweenness({ paths, out, in: inc }: IndexedGraph): number[] {
+  const n = paths.length;
+  const neighbors = out.map((targets, i) => [...new Set([...targets, ...inc[i]])]);
+  const centrality = new Array<number>(n).fill(0);
+
+  const sampleSize = Math.min(n, BETWEENNESS_SAMPLE_SIZE);
+  const sources = Array.from({ length: sampleSize }, (_, k) => Math.floor((k * n) / sampleSize));
+
+  for (const s of sources) {
+    const stack: number[] = [];
+    const predecessors: number[][] = paths.map(() => []);
+    const sigma = new Array<number>(n).fill(0);
+    const dist = new Array<number>(n).fill(-1);
+    sigma[s] = 1;
+    dist[s] = 0;
+    const queue = [s];
+    for (let q = 0; q < queue.length; q++) {
+      const v = queue[q];
+      stack.push(v);
+      for (const w of neighbors[v]) {
+        if (dist[w] < 0) {
+          dist[w] = dist[v] + 1;
+          queue.push(w);
+        }
+        if (dist[w] === dist[v] + 1) {
+          sigma[w] += sigma[v];
+          predecessors[w].push(v);
+        }
+      }
+    }
+
+    const delta = new Array<number>(n).fill(0);
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      for (const v of predecessors[w]) delta[v] += (sigma[v] / sigma[w]) * (1 + delta[w]);
+      if (w !== s) centrality[w] += delta[w];
+    }
+  }
+
+  // Undirected: every pair was counted from both ends
+  const scale = n / sampleSize / 2;
+  return centrality.map((c) => c * scale);
+}
+
+function computeScores(metric: CentralityMetric, indexed: IndexedGraph): number[] {
+  switch (metric) {
+    case "degree":
+      return indexed.out.map((targets, i) => targets.length + indexed.in[i].length);
+    case "in-degree":
+      return indexed.in.map((sources) => sources.length);
+    case "pagerank":
+      return pagerank(indexed);
+    case "betweenness":
+      return betweenness(indexed);
+    case "hub":
+      return hits(indexed).hub;
+    case "authority":
+      return hits(indexed).authority;
+  }
+}
+
+/**
+ * Rank notes by a centrality metric, highest first. Notes the filter excludes
+ * (e.g. daily notes) are left out of the calculation entirely, not just the ranking.
+ */
+export function getCentrality(metric: CentralityMetric, filter: NoteFilter = {}): CentralityScore[] {
+  const graph = getGraph();
+  const cache = vaultState("centrality", () => ({ version: -1, results: new Map<string, CentralityScore[]>() }));
+  if (cache.version !== graph.version) {
+    cache.version = graph.version;
+    cache.results = new Map();
+  }
+  const key = `${metric}|${JSON.stringify(filter)}`;
+  const cached = cache.results.get(key);
+  if (cached) return cached;
+
+  const indexed = indexGraph(filter);
+  const scores = computeScores(metric, indexed);
+  const results = indexed.paths
+    .map((path, i) => ({
+      name: graph.nodes.get(path)!.name,
+      path,
+      score: scores[i],
+      outgoing: indexed.out[i].length,
+      incoming: indexed.in[i].length,
+    }))
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+
+  cache.results.set(key, results);
+  return results;
+}
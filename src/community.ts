@@ -0,0 +1,244 @@
+/**
+ * Link-structure communities.
+ * Louvain modularity optimisation over the undirected, weighted note graph,
+ * plus connected components and the bridge notes that join communities.
+ * Deterministic: nodes are always visited in vault-path order.
+ */
+
+import { getGraph, getNoteAdjacency } from "./graph.js";
+import { vaultState } from "./vaults.js";
+
+export interface Community {
+  id: number;
+  size: number;
+  members: string[];                                // paths, most central first
+  central: { path: string; degree: number }[];      // top members by links inside the community
+  topTags: { tag: string; count: number }[];
+  topFolders: { folder: string; count: number }[];
+}
+
+export interface CommunityReport {
+  communities: Community[];   // size ≥ 2, largest first
+  singletons: number;         // notes that ended up alone (mostly orphans)
+  modularity: number;
+  components: { count: number; sizes: number[]; isolated: number };
+  bridges: { path: string; communities: number; externalLinks: number }[];
+}
+
+/** Gains below this are treated as ties, so rounding noise never moves a node. */
+const EPSILON = 1e-12;
+const MAX_PASSES = 50;
+
+/**
+ * One Louvain local-moving phase. Returns each node's community, or null if
+ * no node moved.
+ */
+function localMoving(neighbors: Map<number, number>[], selfLoops: number[]): number[] | null {
+  const n = neighbors.length;
+  const degree = neighbors.map((m, i) => {
+    let d = 2 * selfLoops[i];
+    for (const w of m.values()) d += w;
+    return d;
+  });
+  const m2 = degree.reduce((a, b) => a + b, 0);
+  if (m2 === 0) return null;
+
+  const community = Array.from({ length: n }, (_, i) => i);
+  const total = degree.slice();
+  let moved = false;
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < n; i++) {
+      const current = community[i];
+      const weightTo = new Map<number, number>();
+      for (const [j, w] of neighbors[i]) {
+        weightTo.set(community[j], (weightTo.get(community[j]) || 0) + w);
+      }
+
+      total[current] -= degree[i];
+      let best = current;
+      let bestGain = (weightTo.get(current) || 0) - (total[current] * degree[i]) / m2;
+      for (const [c, w] of weightTo) {
+        const gain = w - (total[c] * degree[i]) / m2;
+        if (gain > bestGain + EPSILON) {
+          best = c;
+          bestGain = gain;
+        }
+      }
+      total[best] += degree[i];
+      community[i] = best;
+      if (best !== current) improved = moved = true;
+    }
+    if (!improved) break;
+  }
+
+  return moved ? community : null;
+}
+
+/** Louvain: alternate local moving and aggregation until nothing moves. Returns a community index per node. */
+function louvain(neighbors: Map<number, number>[]): number[] {
+  let levelNeighbors = neighbors;
+  let selfLoops = new Array<number>(neighbors.length).fill(0);
+  let membership = neighbors.map((_, i) => i);
+
+  for (;;) {
+    const community = localMoving(levelNeighbors, selfLoops);
+    if (!community) break;
+
+    // Renumber communities densely, in order of first appearance
+    const renumber = new Map<number, number>();
+    for (const c of community) if (!renumber.has(c)) renumber.set(c, renumber.size);
+    membership = membership.map((node) => renumber.get(community[node])!);
+
+    // Aggregate each community into a single node
+    const size = renumber.size;
+    const nextNeighbors = Array.from({ length: size }, () => new Map<number, number>());
+    const nextSelfLoops = new Array<number>(size).fill(0);
+    levelNeighbors.forEach((m, i) => {
+      const a = renumber.get(community[i])!;
+      nextSelfLoops[a] += selfLoops[i];
+      for (const [j, w] of m) {
+        const b = renumber.get(community[j])!;
+        // Symmetric maps: each internal edge is seen from both ends
+        if (a === b) nextSelfLoops[a] += w / 2;
+        else nextNeighbors[a].set(b, (nextNeighbors[a].get(b) || 0) + w);
+      }
+    });
+    levelNeighbors = nextNeighbors;
+    selfLoops = nextSelfLoops;
+  }
+
+  return membership;
+}
+
+function modularity(neighbors: Map<number, number>[], community: number[]): number {
+  let m2 = 0;
+  const total = new Map<number, number>();
+  let internal = 0;
+  neighbors.forEach((m, i) => {
+    for (const [j, w] of m) {
+      m2 += w;
+      total.set(community[i], (total.get(community[i]) || 0) + w);
+      if (community[i] === community[j]) internal += w;
+    }
+  });
+  if (m2 === 0) return 0;
+  let expected = 0;
+  for (const t of total.values()) expected += (t / m2) ** 2;
+  return internal / m2 - expected;
+}
+
+/** Connected components, as lists of node indices. */
+function components(neighbors: Map<number, number>[]): number[][] {
+  const seen = new Set<number>();
+  const result: number[][] = [];
+  for (let start = 0; start < neighbors.length; start++) {
+    if (seen.has(start)) continue;
+    const component = [start];
+    seen.add(start);
+    for (let k = 0; k < component.length; k++) {
+      for (const j of neighbors[component[k]].keys()) {
+        if (!seen.has(j)) {
+          seen.add(j);
+          component.push(j);
+        }
+      }
+    }
+    result.push(component);
+  }
+  return result;
+}
+
+function topCounts(values: string[], limit: number): { key: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const v of values) counts.set(v, (counts.get(v) || 0) + 1);
+  return [...counts]
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count || a.key.localeCompare(b.key))
+    .slice(0, limit);
+}
+
+/**
+ * Detect link communities. Cached until the graph changes.
+ */
+export function getCommunities(): CommunityReport {
+  const graph = getGraph();
+  const cache = vaultState("communities", () => ({ version: -1, report: null as CommunityReport | null }));
+  if (cache.report && cache.version === graph.version) return cache.report;
+
+  const adjacency = getNoteAdjacency();
+  const paths = [...adjacency.keys()].sort();
+  const index = new Map(paths.map((p, i) => [p, i]));
+  const neighbors = paths.map((p) => {
+    const m = new Map<number, number>();
+    for (const q of [...adjacency.get(p)!.keys()].sort()) m.set(index.get(q)!, adjacency.get(p)!.get(q)!);
+    return m;
+  });
+
+  const membership = louvain(neighbors);
+
+  // Group members and rank them by links inside their community
+  const groups = new Map<number, number[]>();
+  membership.forEach((c, i) => {
+    if (!groups.has(c)) groups.set(c, []);
+    groups.get(c)!.push(i);
+  });
+  const internalDegree = neighbors.map((m, i) => {
+    let d = 0;
+    for (const [j, w] of m) if (membership[j] === membership[i]) d += w;
+    return d;
+  });
+
+  const communities: Community[] = [];
+  let singletons = 0;
+  for (const members of groups.values()) {
+    if (members.length < 2) {
+      singletons++;
+      continue;
+    }
+    const ranked = [...members].sort((a, b) => internalDegree[b] - internalDegree[a] || paths[a].localeCompare(paths[b]));
+    const nodes = ranked.map((i) => graph.nodes.get(paths[i])!);
+    communities.push({
+      id: 0,
+      size: members.length,
+      members: ranked.map((i) => paths[i]),
+      central: ranked.slice(0, 5).map((i) => ({ path: paths[i], degree: internalDegree[i] })),
+      topTags: topCounts(nodes.flatMap((n) => n.tags), 3).map(({ key, count }) => ({ tag: key, count })),
+      topFolders: topCounts(nodes.map((n) => n.folder || "(root)"), 3).map(({ key, count }) => ({ folder: key, count })),
+    });
+  }
+  communities.sort((a, b) => b.size - a.size || a.members[0].localeCompare(b.members[0]));
+  communities.forEach((c, i) => (c.id = i + 1));
+
+  // Bridges: notes whose links reach into the most other communities
+  const bridges: CommunityReport["bridges"] = [];
+  neighbors.forEach((m, i) => {
+    const others = new Set<number>();
+    let externalLinks = 0;
+    for (const [j, w] of m) {
+      if (membership[j] === membership[i]) continue;
+      others.add(membership[j]);
+      externalLinks += w;
+    }
+    if (others.size > 0) bridges.push({ path: paths[i], communities: others.size + 1, externalLinks });
+  });
+  bridges.sort((a, b) => b.communities - a.communities || b.externalLinks - a.externalLinks || a.path.localeCompare(b.path));
+
+  const comps = components(neighbors);
+  const report: CommunityReport = {
+    communities,
+    singletons,
+    modularity: Math.round(modularity(neighbors, membership) * 1000) / 1000,
+    components: {
+      count: comps.length,
+      sizes: comps.map((c) => c.length).filter((n) => n > 1).sort((a, b) => b - a),
+      isolated: comps.filter((c) => c.length === 1).length,
+    },
+    bridges: bridges.slice(0, 10),
+  };
+
+  cache.version = graph.version;
+  cache.report = report;
+  return report;
+}
@@ -0,0 +1,173 @@
+/**
+ * Graph configuration file: which notes enter the graph and how links are
+ * read from them.
+ *
+ *   include:      globs a note path must match (default: every note)
+ *   exclude:      globs that leave notes out, e.g. "Templates/**"; a pattern
+ *                 ending in "/" covers everything under that folder
+ *   excludeTags:  notes with any of these tags (nested tags included) are left out
+ *   links:
+ *     types:       link types that become edges (default: all)
+ *     frontmatter: links in frontmatter properties — true, false, or a list of property names
+ *   refresh:
+ *     interval:    auto-refresh interval, e.g. "10m"
+ *
+ * The file is JSON or YAML (by extension), located by --config <path> or
+ * GRAPH_CONFIG. It is validated at startup and reloaded when it changes; an
+ * invalid edit is logged and the previous config kept. The same config
+ * applies to every vault.
+ */
+
+import { watchFile } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { LINK_TYPES, type ParsedLink } from "./parser.js";
+
+/** A duration like "30s", "5m" or "1h", as config files and GRAPH_VAULTS give it. */
+export const durationSchema = z.string().regex(/^\d+(ms|s|m|h)$/, "expected a duration like 30s, 5m or 1h");
+
+const configSchema = z.object({
+  include: z.array(z.string().min(1)).optional(),
+  exclude: z.array(z.string().min(1)).default([]),
+  excludeTags: z.array(z.string().min(1)).default([]),
+  links: z.object({
+    types: z.array(z.enum(LINK_TYPES)).default([...LINK_TYPES]),
+    frontmatter: z.union([z.boolean(), z.array(z.string().min(1))]).default(true),
+  }).strict().default({}),
+  refresh: z.object({
+    interval: durationSchema.optional(),
+  }).strict().default({}),
+}).strict();
+
+export type GraphConfig = z.infer<typeof configSchema>;
+
+let config: GraphConfig = configSchema.parse({});
+let pathFilter: { config: GraphConfig; test: (path: string) => boolean } | null = null;
+
+/** The config file from --config (or --config=path), else GRAPH_CONFIG. */
+export function getConfigPath(): string | null {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--config" && args[i + 1]) return args[i + 1];
+    if (args[i].startsWith("--config=")) return args[i].slice("--config=".length);
+  }
+  return process.env.GRAPH_CONFIG || null;
+}
+
+/** The config in effect: the file's, or the defaults without one. */
+export function getConfig(): GraphConfig {
+  return config;
+}
+
+async function readConfig(path: string): Promise<GraphConfig> {
+  const text = await readFile(path, "utf8");
+  let raw: unknown;
+  try {
+    raw = path.toLowerCase().endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    throw new Error(`Config ${path} is not valid ${path.toLowerCase().endsWith(".json") ? "JSON" : "YAML"}: ${(err as Error).message}`);
+  }
+  const parsed = configSchema.safeParse(raw ?? {});
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new Error(`Invalid config ${path} — ${issues.join("; ")}`);
+  }
+  return parsed.data;
+}
+
+/** Load the config file, if there is one. Throws when it is missing or invalid. */
+export async function loadConfig(): Promise<string | null> {
+  const path = getConfigPath();
+  if (path) config = await readConfig(path);
+  return path;
+}
+
+/**
+ * Reload the config file whenever it changes, then call `onChange` with the
+ * previous config. Polls, so editors that replace the file are noticed too.
+ */
+export function watchConfig(onChange: (previous: GraphConfig) => void | Promise<void>): void {
+  const path = getConfigPath();
+  if (!path) return;
+  watchFile(path, { interval: 1000 }, async (current, before) => {
+    if (current.mtimeMs === before.mtimeMs && current.size === before.size) return;
+    let next: GraphConfig;
+    try {
+      next = await readConfig(path);
+    } catch (err) {
+      console.error(`[graph-memory] Keeping the previous config: ${(err as Error).message}`);
+      return;
+    }
+    const previous = config;
+    config = next;
+    console.error(`[graph-memory] Reloaded config from ${path}.`);
+    await onChange(previous);
+  }).unref();
+}
+
+/** What in a config changes the graph itself; equal keys give equal graphs. */
+export function graphSettingsKey(settings: GraphConfig = config): string {
+  const { include, exclude, excludeTags, links } = settings;
+  return JSON.stringify({ include, exclude, excludeTags, links });
+}
+
+/**
+ * "Templates/**" → a regex over vault paths. `*` and `?` stay within a
+ * folder, `**` crosses folders, `{a,b}` matches either literal.
+ */
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob.replace(/^\/+/, "").replace(/\/$/, "/**");
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches no folder at all
+      if (pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else if (c === "{") {
+      const end = pattern.indexOf("}", i);
+      if (end === -1) {
+        source += "\\{";
+        continue;
+      }
+      source += `(?:${pattern.slice(i + 1, end).split(",").map((alt) => alt.replace(/[.*+?^$()|[\]\\]/g, "\\$&")).join("|")})`;
+      i = end;
+    } else {
+      source += c.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** Whether a note path passes the include/exclude globs. */
+export function isIncluded(path: string, settings: GraphConfig = config): boolean {
+  if (pathFilter?.config !== settings) {
+    const include = settings.include?.map(globToRegExp);
+    const exclude = settings.exclude.map(globToRegExp);
+    pathFilter = {
+      config: settings,
+      test: (p) => (!include || include.some((r) => r.test(p))) && !exclude.some((r) => r.test(p)),
+    };
+  }
+  return pathFilter.test(path);
+}
+
+/** Whether a parsed link becomes an edge under the link options. */
+export function isLinkIncluded(link: ParsedLink, settings: GraphConfig = config): boolean {
+  const { types, frontmatter } = settings.links;
+  if (!types.includes(link.type)) return false;
+  if (link.property === undefined) return true;
+  return Array.isArray(frontmatter)
+    ? frontmatter.some((p) => p.toLowerCase() === link.property!.toLowerCase())
+    : frontmatter;
+}
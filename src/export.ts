@@ -0,0 +1,305 @@
+/**
+ * Graph export: GraphML, GEXF, Graphviz DOT, JSON node-link and Mermaid
+ * flowcharts, of the whole graph or a filtered subgraph. Nodes carry folder,
+ * tags and degree; edges carry link count, link types and frontmatter
+ * properties, where the format has room for them.
+ */
+
+import { getCentrality } from "./centrality.js";
+import { compileFilter, compileLinkFilter, getDegree, getGraph, neighbors, queryRelated, type NoteFilter, type TraversalOptions } from "./graph.js";
+
+export const EXPORT_FORMATS = ["graphml", "gexf", "dot", "json", "mermaid"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportNode {
+  id: string;  // vault path
+  name: string;
+  folder: string;
+  tags: string[];
+  inDegree: number;
+  outDegree: number;
+  unresolved: boolean;
+}
+
+export interface ExportEdge {
+  source: string;
+  target: string;
+  weight: number;        // link occurrences
+  types: string[];       // distinct link types
+  properties: string[];  // frontmatter properties the links were written as
+}
+
+export interface ExportGraph {
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+}
+
+/**
+ * Nodes sorted by path; edges only between included nodes, made of the links
+ * of the types and properties in `links` (default: all).
+ */
+function induced(paths: Iterable<string>, links: Pick<TraversalOptions, "linkTypes" | "properties"> = {}): ExportGraph {
+  const graph = getGraph();
+  const keep = compileLinkFilter(links);
+  const included = new Set(paths);
+  const nodes: ExportNode[] = [...included].sort().map((path) => {
+    const node = graph.nodes.get(path)!;
+    const degree = getDegree(path);
+    return {
+      id: path,
+      name: node.name,
+      folder: node.folder,
+      tags: node.tags,
+      inDegree: degree.incoming,
+      outDegree: degree.outgoing,
+      unresolved: node.unresolved,
+    };
+  });
+
+  const edges: ExportEdge[] = [];
+  for (const { id: source } of nodes) {
+    for (const [target, all] of graph.edges.get(source) || []) {
+      const links = keep ? all.filter(keep) : all;
+      if (!included.has(target) || links.length === 0) continue;
+      edges.push({
+        source,
+        target,
+        weight: links.length,
+        types: [...new Set(links.map((l) => l.type))],
+        properties: [...new Set(links.flatMap((l) => (l.property ? [l.property] : [])))],
+      });
+    }
+  }
+  edges.sort((a, b) => a.source.localeCompare(b.source) || a.target.localeCompare(b.target));
+  return { nodes, edges };
+}
+
+/** The notes passing `filter` (and their unresolved targets, if asked for), with the links between them. */
+export function collectGraph(options: { filter?: NoteFilter; includeUnresolved?: boolean } = {}): ExportGraph {
+  const allow = compileFilter(options.filter);
+  const paths = [...getGraph().nodes.values()]
+    .filter((n) => (options.includeUnresolved || !n.unresolved) && allow(n))
+    .map((n) => n.path);
+  return induced(paths);
+}
+
+/**
+ * The induced subgraph around seed notes: everything within `depth` hops of
+ * any seed, and every edge among those notes made of the link types and
+ * properties followed. Over `maxNodes`, it grows out from the seeds one note
+ * at a time along the links the traversal follows, always taking the adjacent
+ * note with the highest PageRank — so the most central neighbours are kept
+ * and the result stays connected to the seeds.
+ */
+export function collectNeighborhood(
+  seeds: string[],
+  depth: number,
+  options: TraversalOptions & { maxNodes?: number } = {}
+): ExportGraph & { pruned: number } {
+  const reached = new Set(seeds);
+  for (const seed of seeds) {
+    for (const r of queryRelated(seed, depth, options)) reached.add(r.path);
+  }
+
+  const maxNodes = Math.max(options.maxNodes ?? Infinity, seeds.length);
+  if (reached.size <= maxNodes) return { ...induced(reached, options), pruned: 0 };
+
+  const rank = new Map(getCentrality("pagerank").map((c) => [c.path, c.score]));
+  const kept = new Set(seeds);
+  const frontier = new Set<string>();
+  const allowNode = compileFilter(options.filter);
+  const expand = (path: string) => {
+    for (const p of neighbors(path, options, allowNode).keys()) if (reached.has(p) && !kept.has(p)) frontier.add(p);
+  };
+  seeds.forEach(expand);
+  while (kept.size < maxNodes && frontier.size > 0) {
+    let best = "";
+    for (const p of frontier) {
+      const score = rank.get(p) ?? 0;
+      const bestScore = rank.get(best) ?? -1;
+      if (score > bestScore || (score === bestScore && p < best)) best = p;
+    }
+    frontier.delete(best);
+    kept.add(best);
+    expand(best);
+  }
+  return { ...induced(kept, options), pruned: reached.size - kept.size };
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+}
+
+function toGraphML({ nodes, edges }: ExportGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="name" for="node" attr.name="name" attr.type="string"/>',
+    '  <key id="folder" for="node" attr.name="folder" attr.type="string"/>',
+    '  <key id="tags" for="node" attr.name="tags" attr.type="string"/>',
+    '  <key id="in_degree" for="node" attr.name="in_degree" attr.type="int"/>',
+    '  <key id="out_degree" for="node" attr.name="out_degree" attr.type="int"/>',
+    '  <key id="unresolved" for="node" attr.name="unresolved" attr.type="boolean"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>',
+    '  <key id="types" for="edge" attr.name="types" attr.type="string"/>',
+    '  <key id="properties" for="edge" attr.name="properties" attr.type="string"/>',
+    '  <graph id="vault" edgedefault="directed">',
+  ];
+  for (const n of nodes) {
+    lines.push(
+      `    <node id="${xml(n.id)}">`,
+      `      <data key="name">${xml(n.name)}</data>`,
+      `      <data key="folder">${xml(n.folder)}</data>`,
+      `      <data key="tags">${xml(n.tags.join(","))}</data>`,
+      `      <data key="in_degree">${n.inDegree}</data>`,
+      `      <data key="out_degree">${n.outDegree}</data>`,
+      `      <data key="unresolved">${n.unresolved}</data>`,
+      "    </node>"
+    );
+  }
+  edges.forEach((e, i) => {
+    lines.push(
+      `    <edge id="e${i}" source="${xml(e.source)}" target="${xml(e.target)}">`,
+      `      <data key="weight">${e.weight}</data>`,
+      `      <data key="types">${xml(e.types.join(","))}</data>`,
+      `      <data key="properties">${xml(e.properties.join(","))}</data>`,
+      "    </edge>"
+    );
+  });
+  lines.push("  </graph>", "</graphml>");
+  return lines.join("\n") + "\n";
+}
+
+function toGEXF({ nodes, edges }: ExportGraph): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    '  <graph defaultedgetype="directed">',
+    '    <attributes class="node">',
+    '      <attribute id="folder" title="folder" type="string"/>',
+    '      <attribute id="tags" title="tags" type="string"/>',
+    '      <attribute id="in_degree" title="in_degree" type="integer"/>',
+    '      <attribute id="out_degree" title="out_degree" type="integer"/>',
+    '      <attribute id="unresolved" title="unresolved" type="boolean"/>',
+    "    </attributes>",
+    '    <attributes class="edge">',
+    '      <attribute id="types" title="types" type="string"/>',
+    '      <attribute id="properties" title="properties" type="string"/>',
+    "    </attributes>",
+    "    <nodes>",
+  ];
+  for (const n of nodes) {
+    lines.push(
+      `      <node id="${xml(n.id)}" label="${xml(n.name)}">`,
+      "        <attvalues>",
+      `          <attvalue for="folder" value="${xml(n.folder)}"/>`,
+      `          <attvalue for="tags" value="${xml(n.tags.join(","))}"/>`,
+      `          <attvalue for="in_degree" value="${n.inDegree}"/>`,
+      `          <attvalue for="out_degree" value="${n.outDegree}"/>`,
+      `          <attvalue for="unresolved" value="${n.unresolved}"/>`,
+      "        </attvalues>",
+      "      </node>"
+    );
+  }
+  lines.push("    </nodes>", "    <edges>");
+  edges.forEach((e, i) => {
+    lines.push(
+      `      <edge id="e${i}" source="${xml(e.source)}" target="${xml(e.target)}" weight="${e.weight}">`,
+      "        <attvalues>",
+      `          <attvalue for="types" value="${xml(e.types.join(","))}"/>`,
+      `          <attvalue for="properties" value="${xml(e.properties.join(","))}"/>`,
+      "        </attvalues>",
+      "      </edge>"
+    );
+  });
+  lines.push("    </edges>", "  </graph>", "</gexf>");
+  return lines.join("\n") + "\n";
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+function toDOT({ nodes, edges }: ExportGraph): string {
+  const lines = ["digraph vault {"];
+  for (const n of nodes) {
+    const attrs = [
+      `label=${dotString(n.name)}`,
+      `folder=${dotString(n.folder)}`,
+      `tags=${dotString(n.tags.join(","))}`,
+      `in_degree=${n.inDegree}`,
+      `out_degree=${n.outDegree}`,
+    ];
+    if (n.unresolved) attrs.push("style=dashed");
+    lines.push(`  ${dotString(n.id)} [${attrs.join(", ")}];`);
+  }
+  for (const e of edges) {
+    const attrs = [`weight=${e.weight}`, `types=${dotString(e.types.join(","))}`];
+    if (e.properties.length > 0) attrs.push(`label=${dotString(e.properties.join(","))}`);
+    lines.push(`  ${dotString(e.source)} -> ${dotString(e.target)} [${attrs.join(", ")}];`);
+  }
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+/** networkx-style node-link JSON. */
+function toJSON({ nodes, edges }: ExportGraph): string {
+  return JSON.stringify(
+    {
+      directed: true,
+      multigraph: false,
+      nodes: nodes.map((n) => ({
+        id: n.id,
+        name: n.name,
+        folder: n.folder,
+        tags: n.tags,
+        in_degree: n.inDegree,
+        out_degree: n.outDegree,
+        unresolved: n.unresolved,
+      })),
+      links: edges.map((e) => ({ source: e.source, target: e.target, weight: e.weight, types: e.types, properties: e.properties })),
+    },
+    null,
+    2
+  ) + "\n";
+}
+
+/** Mermaid label text: quotes and markup-breaking characters as entity codes. */
+function mermaidLabel(text: string): string {
+  return text.replace(/"/g, "#quot;").replace(/[<>]/g, (c) => (c === "<" ? "#lt;" : "#gt;"));
+}
+
+function toMermaid({ nodes, edges }: ExportGraph, highlight: string[]): string {
+  const ids = new Map(nodes.map((n, i) => [n.id, `n${i}`]));
+  const lines = ["flowchart LR"];
+  for (const n of nodes) lines.push(`  ${ids.get(n.id)}["${mermaidLabel(n.name)}"]`);
+  for (const e of edges) {
+    const label = e.properties.length > 0 ? `|${mermaidLabel(e.properties.join(", "))}|` : "";
+    lines.push(`  ${ids.get(e.source)} -->${label} ${ids.get(e.target)}`);
+  }
+  const ghosts = nodes.filter((n) => n.unresolved).map((n) => ids.get(n.id));
+  if (ghosts.length > 0) {
+    lines.push("  classDef unresolved stroke-dasharray: 4 4", `  class ${ghosts.join(",")} unresolved`);
+  }
+  const highlighted = highlight.filter((p) => ids.has(p)).map((p) => ids.get(p));
+  if (highlighted.length > 0) {
+    lines.push("  classDef highlight stroke-width: 3px", `  class ${highlighted.join(",")} highlight`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Serialize a graph in the given format. `highlight` notes are drawn bold (Mermaid only). */
+export function formatGraph(exported: ExportGraph, format: ExportFormat, options: { highlight?: string[] } = {}): string {
+  switch (format) {
+    case "graphml": return toGraphML(exported);
+    case "gexf": return toGEXF(exported);
+    case "dot": return toDOT(exported);
+    case "json": return toJSON(exported);
+    case "mermaid": return toMermaid(exported, options.highlight ?? []);
+  }
+}
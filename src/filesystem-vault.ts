@@ -0,0 +1,92 @@
+/**
+ * Filesystem vault backend.
+ * Walks a synced vault directory on disk — no running Obsidian required.
+ */
+
+import { readdir, readFile, stat } from "node:fs/promises";
+import { resolve, sep } from "node:path";
+import type { ConnectionCheck, NoteListing, NoteMeta, ReadFailure, VaultSource } from "./vault-source.js";
+
+/** Directories Obsidian itself never indexes. Any other dot-folder is skipped too. */
+const EXCLUDED_DIRS = new Set([".obsidian", ".trash"]);
+
+function isExcluded(name: string): boolean {
+  return EXCLUDED_DIRS.has(name) || name.startsWith(".");
+}
+
+export function createFilesystemVaultSource(root: string): VaultSource {
+  const vaultRoot = resolve(root);
+
+  /** Map a vault-relative path ("Infrastructure/Foo.md") to an absolute one inside the vault. */
+  function toAbsolute(path: string): string {
+    const abs = resolve(vaultRoot, ...path.split("/"));
+    if (abs !== vaultRoot && !abs.startsWith(vaultRoot + sep)) {
+      throw new Error(`Path escapes vault root: ${path}`);
+    }
+    return abs;
+  }
+
+  return {
+    description: `filesystem (${vaultRoot})`,
+
+    /**
+     * Recursively list all markdown files in the vault. Unreadable
+     * subfolders and files are reported rather than failing the listing.
+     */
+    async listAllNotes(): Promise<NoteListing> {
+      const notes: NoteMeta[] = [];
+      const failed: ReadFailure[] = [];
+      const queue: string[] = [""];
+
+      while (queue.length > 0) {
+        const dir = queue.shift()!;
+        let entries;
+        try {
+          entries = await readdir(dir ? toAbsolute(dir) : vaultRoot, { withFileTypes: true });
+        } catch (err) {
+          if (!dir) throw err;
+          failed.push({ path: `${dir}/`, reason: (err as Error).message });
+          continue;
+        }
+        for (const entry of entries) {
+          if (isExcluded(entry.name)) continue;
+          const path = dir ? `${dir}/${entry.name}` : entry.name;
+          if (entry.isDirectory()) {
+            queue.push(path);
+          } else if (entry.isFile() && entry.name.endsWith(".md")) {
+            try {
+              const info = await stat(toAbsolute(path));
+              notes.push({ path, mtime: info.mtimeMs, size: info.size });
+            } catch (err) {
+              failed.push({ path, reason: (err as Error).message });
+            }
+          }
+        }
+      }
+
+      return { notes, failed };
+    },
+
+    /**
+     * Read a note's content by vault-relative path.
+     */
+    async readNote(path: string): Promise<string> {
+      return readFile(toAbsolute(path), "utf8");
+    },
+
+    /**
+     * Check that the vault directory exists and can be listed.
+     */
+    async checkConnection(): Promise<ConnectionCheck> {
+      const start = Date.now();
+      try {
+        const info = await stat(vaultRoot);
+        if (!info.isDirectory()) return { ok: false, detail: `${vaultRoot} is not a directory`, latencyMs: Date.now() - start };
+        await readdir(vaultRoot);
+        return { ok: true, detail: `Directory ${vaultRoot}`, latencyMs: Date.now() - start };
+      } catch (err) {
+        return { ok: false, detail: (err as Error).message, latencyMs: Date.now() - start };
+      }
+    },
+  };
+}
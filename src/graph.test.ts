@@ -0,0 +1,123 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, readFileSync, renameSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadConfig } from "./config.js";
+import { buildGraph, getGraph } from "./graph.js";
+
+/** The graph's nodes, links and note states as plain JSON, independent of build order. */
+function describeGraph(): unknown {
+  const graph = Object.fromEntries(Object.entries(getGraph()).filter(([key]) => key !== "version" && key !== "lastRefresh"));
+  const empty = (value: unknown) => (value instanceof Map || value instanceof Set) && value.size === 0;
+  return JSON.parse(JSON.stringify(graph, (_key, value) => {
+    if (value instanceof Map) return Object.fromEntries([...value].filter(([, v]) => !empty(v)));
+    if (value instanceof Set) return [...value].sort();
+    return value;
+  }));
+}
+
+// Run as a child process, this file builds the graph from scratch and writes it out
+if (process.env.GRAPH_TEST_OUTPUT) {
+  await loadConfig();
+  await buildGraph();
+  writeFileSync(process.env.GRAPH_TEST_OUTPUT, JSON.stringify(describeGraph()));
+} else {
+  const root = mkdtempSync(join(tmpdir(), "graph-memory-test-"));
+  process.env.OBSIDIAN_VAULT_PATH = root;
+
+  // Fingerprints are mtime and size: give every write its own mtime
+  let clock = Date.now() / 1000;
+
+  const write = (path: string, content: string) => {
+    const file = join(root, path);
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, content);
+    clock += 10;
+    utimesSync(file, clock, clock);
+  };
+
+  /** Switch to a new config; a change of rules takes a full rebuild, as the server does. */
+  const setConfig = async (settings: object) => {
+    process.env.GRAPH_CONFIG = join(root, ".graph-config.json");
+    writeFileSync(process.env.GRAPH_CONFIG, JSON.stringify(settings));
+    await loadConfig();
+  };
+
+  /** Refresh the graph and check it against one built from scratch in a new process. */
+  const assertMatchesFullBuild = async (step: string, options: { full?: boolean } = {}) => {
+    await buildGraph(options);
+    const output = join(root, ".fresh.json");
+    execFileSync(process.execPath, [fileURLToPath(import.meta.url)], { env: { ...process.env, GRAPH_TEST_OUTPUT: output } });
+    assert.deepEqual(describeGraph(), JSON.parse(readFileSync(output, "utf8")), `graphs differ after ${step}`);
+    rmSync(output);
+  };
+
+  after(() => rmSync(root, { recursive: true, force: true }));
+
+  test("incremental builds match full builds", async () => {
+    write("A.md", "Links to [[B]], [[C]] and [[Ghost]].\n");
+    write("B.md", "#project\nBack to [[A]].\n");
+    write("Folder/C.md", "C is here.\n");
+    write("D.md", "See [[C]].\n");
+    await assertMatchesFullBuild("the first build");
+
+    write("E.md", "New note linking [[D]] and [[B]].\n");
+    await assertMatchesFullBuild("creating a note");
+
+    write("A.md", "Now only links to [[D]].\n");
+    write("B.md", "#area\nBack to [[A]], edited.\n");
+    await assertMatchesFullBuild("editing notes");
+
+    rmSync(join(root, "B.md"));
+    await assertMatchesFullBuild("deleting a note");
+    assert.equal(getGraph().nodes.get("B.md")?.unresolved, true, "a deleted note that is still linked becomes a ghost");
+
+    renameSync(join(root, "Folder/C.md"), join(root, "C.md"));
+    await assertMatchesFullBuild("moving a note");
+
+    renameSync(join(root, "D.md"), join(root, "Folder/D2.md"));
+    await assertMatchesFullBuild("renaming a note");
+
+    write("Ghost.md", "Now a real note.\n");
+    await assertMatchesFullBuild("creating a note a ghost stood in for");
+    assert.equal(getGraph().nodes.get("Ghost.md")?.unresolved, false);
+
+    write("C.md", "---\naliases: [Cee]\n---\nC is here.\n");
+    write("Folder/D2.md", "See [[Cee]] and [[See]].\n");
+    await assertMatchesFullBuild("adding an alias");
+    assert.ok(getGraph().edges.get("Folder/D2.md")?.has("C.md"), "links resolve through aliases");
+
+    write("C.md", "---\naliases: [See]\n---\nC is here.\n");
+    await assertMatchesFullBuild("changing an alias");
+
+    write("B.md", "Back again, linking [[E]].\n");
+    await assertMatchesFullBuild("re-creating a deleted note");
+
+    await assertMatchesFullBuild("a full rebuild in place", { full: true });
+
+    write("Private.md", "#private\nSecret, about [[A]].\n");
+    await setConfig({ exclude: ["Folder/"], excludeTags: ["private"] });
+    await assertMatchesFullBuild("excluding a folder and a tag", { full: true });
+    assert.ok(!getGraph().nodes.has("Folder/D2.md") && !getGraph().nodes.has("Private.md"));
+
+    await setConfig({ links: { types: ["markdown"] } });
+    await assertMatchesFullBuild("ignoring wikilinks", { full: true });
+
+    await setConfig({});
+    await assertMatchesFullBuild("going back to the defaults", { full: true });
+    assert.ok(getGraph().nodes.has("Private.md"));
+  });
+
+  test("a full build requested during an incremental one runs after it", async () => {
+    write("A.md", "Edited again, linking [[B]].\n");
+    const [incremental, full] = await Promise.all([buildGraph(), buildGraph({ full: true })]);
+    assert.equal(incremental.full, false);
+    assert.deepEqual(incremental.changed, ["A.md"]);
+    assert.equal(full.full, true);
+    assert.equal(full.unchanged, 0, "every note is re-parsed");
+    assert.equal(full.changed.length, getGraph().noteStates.size);
+  });
+}
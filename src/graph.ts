@@ -1,35 +1,79 @@
 /**
  * In-memory graph engine.
- * Builds an adjacency list from vault notes + wikilinks.
- * Provides BFS, shortest path, hub/orphan/cluster queries.
+ * Builds a typed, weighted adjacency list from vault notes + links.
+ * Provides BFS, shortest path, orphan/cluster queries.
+ * Each vault has its own graph; functions work on the current vault's.
  */
 
-import { listAllNotes, readNote } from "./obsidian-api.js";
+import { createHash } from "node:crypto";
+import { getVaultSource, type NoteListing, type NoteMeta, type ReadFailure } from "./vault-source.js";
+import { currentVault, vaultState } from "./vaults.js";
+import { createLinkResolver, unresolvedPath, type LinkResolver } from "./resolver.js";
+import { getConfig, isIncluded, isLinkIncluded } from "./config.js";
+import { parseAliases, parseLinks, parseProperties, parseTags, type LinkType, type ParsedLink } from "./parser.js";
 
 export interface GraphNode {
   path: string;    // "Infrastructure/Obsidian Stack - Reference.md"
   name: string;    // "Obsidian Stack - Reference"
   folder: string;  // "Infrastructure"
   tags: string[];
+  aliases: string[];    // frontmatter aliases, resolvable like the note name
+  properties: Record<string, unknown>;  // frontmatter, parsed as YAML
   hasContent: boolean;
+  unresolved: boolean;  // ghost node: the target of a wikilink that has no note yet
+}
+
+/** Per-note change-detection state, used to skip unchanged notes on refresh. */
+export interface NoteState {
+  stat?: string;    // "mtime:size", when the vault source reports it
+  hash: string;     // sha1 of the note content
+  links: ParsedLink[];  // every link in the note, kept so edges can be re-linked as notes come and go
 }
 
 export interface Graph {
-  nodes: Map<string, GraphNode>;          // name → node
-  edges: Map<string, Set<string>>;        // name → outgoing linked names
-  reverseEdges: Map<string, Set<string>>; // name → incoming linked names
+  nodes: Map<string, GraphNode>;                 // path → node (ghosts keyed by the path the link would create)
+  edges: Map<string, Map<string, ParsedLink[]>>; // path → target path → each link occurrence
+  reverseEdges: Map<string, Set<string>>;        // path → incoming linked paths
+  noteStates: Map<string, NoteState>;            // path → change-detection state
+  contents: Map<string, string>;                 // path → note text, for text queries like unlinked mentions
+  version: number;                               // bumped whenever nodes or edges change
   lastRefresh: Date;
 }
 
-let graph: Graph = {
-  nodes: new Map(),
-  edges: new Map(),
-  reverseEdges: new Map(),
-  lastRefresh: new Date(0),
-};
+/** What a build changed, by note path. */
+export interface RefreshResult {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  unchanged: number;
+  excluded: number;       // listed notes the config leaves out
+  failed: ReadFailure[];  // notes and folders that could not be read; what the graph had for them is kept
+  full: boolean;          // every note was re-read and re-parsed
+  durationMs: number;
+}
+
+/** How the vault's last builds went, for diagnostics. */
+export interface BuildStatus {
+  lastAttempt: Date | null;
+  lastSuccess: Date | null;
+  lastResult: RefreshResult | null;
+  lastError: string | null;  // why the last build failed, cleared by a successful one
+}
+
+function createGraph(): Graph {
+  return {
+    nodes: new Map(),
+    edges: new Map(),
+    reverseEdges: new Map(),
+    noteStates: new Map(),
+    contents: new Map(),
+    version: 0,
+    lastRefresh: new Date(0),
+  };
+}
 
 /** Extract note name from path: "Infrastructure/Foo.md" → "Foo" */
-function nameFromPath(path: string): string {
+export function nameFromPath(path: string): string {
   const basename = path.split("/").pop() || path;
   return basename.replace(/\.md$/, "");
 }
@@ -40,151 +84,563 @@ function folderFromPath(path: string): string {
   return parts.length > 1 ? parts.slice(0, -1).join("/") : "";
 }
 
-/** Parse wikilinks from markdown content. Returns array of link targets. */
-function parseWikilinks(content: string): string[] {
-  const regex = /\[\[([^\]|#]+)(?:[|#][^\]]+)?\]\]/g;
-  const links: string[] = [];
-  let match: RegExpExecArray | null;
-  while ((match = regex.exec(content)) !== null) {
-    links.push(match[1].trim());
+/** Fingerprint from source metadata, when the source reports mtime/size. */
+function statFingerprint(meta: NoteMeta): string | undefined {
+  return meta.mtime !== undefined && meta.size !== undefined ? `${meta.mtime}:${meta.size}` : undefined;
+}
+
+function hashContent(content: string): string {
+  return createHash("sha1").update(content).digest("hex");
+}
+
+/** Lowercased basename a link points at: "Projects/Alpha/README.md" → "readme" */
+function linkBasename(link: string): string {
+  return (link.split("/").pop() || link).replace(/\.md$/i, "").toLowerCase();
+}
+
+/** Detach a note's outgoing edges from the reverse index, dropping ghosts nothing links to anymore. */
+function clearOutgoing(path: string): void {
+  const graph = getGraph();
+  for (const target of graph.edges.get(path)?.keys() || []) {
+    const incoming = graph.reverseEdges.get(target);
+    incoming?.delete(path);
+    if (graph.nodes.get(target)?.unresolved && !incoming?.size) {
+      graph.nodes.delete(target);
+      graph.edges.delete(target);
+      graph.reverseEdges.delete(target);
+    }
+  }
+  graph.edges.set(path, new Map());
+}
+
+/** Ensure a ghost node exists for an unresolved link target. */
+function ensureGhost(path: string): void {
+  const graph = getGraph();
+  if (graph.nodes.has(path)) return;
+  graph.nodes.set(path, {
+    path,
+    name: nameFromPath(path),
+    folder: folderFromPath(path),
+    tags: [],
+    aliases: [],
+    properties: {},
+    hasContent: false,
+    unresolved: true,
+  });
+  graph.edges.set(path, new Map());
+  if (!graph.reverseEdges.has(path)) graph.reverseEdges.set(path, new Set());
+}
+
+/** Whether `path` is a real note (not a ghost). */
+function isNote(path: string): boolean {
+  const graph = getGraph();
+  const node = graph.nodes.get(path);
+  return node !== undefined && !node.unresolved;
+}
+
+/** Count the real notes among some neighbours, ignoring ghosts. */
+function countNotes(paths: Iterable<string> | undefined): number {
+  let count = 0;
+  for (const p of paths || []) if (isNote(p)) count++;
+  return count;
+}
+
+function addEdge(source: string, target: string, link: ParsedLink): void {
+  const graph = getGraph();
+  const outgoing = graph.edges.get(source)!;
+  if (!outgoing.has(target)) outgoing.set(target, []);
+  outgoing.get(target)!.push(link);
+  if (!graph.reverseEdges.has(target)) {
+    graph.reverseEdges.set(target, new Set());
   }
-  return links;
-}
-
-/** Parse tags from markdown content (both inline #tag and frontmatter tags). */
-function parseTags(content: string): string[] {
-  const tags = new Set<string>();
-
-  // Frontmatter tags (YAML)
-  const fmMatch = content.match(/^---\n([\s\S]*?)\n---/);
-  if (fmMatch) {
-    const fm = fmMatch[1];
-    // tags: [tag1, tag2] or tags:\n  - tag1\n  - tag2
-    const tagsLineMatch = fm.match(/^tags:\s*\[([^\]]*)\]/m);
-    if (tagsLineMatch) {
-      tagsLineMatch[1].split(",").forEach((t) => {
-        const cleaned = t.trim().replace(/^["']|["']$/g, "").replace(/^#/, "");
-        if (cleaned) tags.add(cleaned);
+  graph.reverseEdges.get(target)!.add(source);
+}
+
+function removeNote(path: string): void {
+  const graph = getGraph();
+  clearOutgoing(path);
+  for (const source of graph.reverseEdges.get(path) || []) {
+    graph.edges.get(source)?.delete(path);
+  }
+  graph.nodes.delete(path);
+  graph.edges.delete(path);
+  graph.reverseEdges.delete(path);
+  graph.noteStates.delete(path);
+  graph.contents.delete(path);
+}
+
+/** Link/name resolver over the current graph, rebuilt whenever the graph version changes. */
+export function getResolver(): LinkResolver {
+  const graph = getGraph();
+  const cache = vaultState("resolver", () => ({ version: -1, resolver: createLinkResolver([]) }));
+  if (cache.version !== graph.version) {
+    const notes = [...graph.nodes.values()].filter((n) => !n.unresolved);
+    cache.version = graph.version;
+    cache.resolver = createLinkResolver(notes);
+  }
+  return cache.resolver;
+}
+
+/**
+ * Build the graph from the vault, patching it in place.
+ *
+ * Notes whose fingerprint (mtime/size from the source, else a content hash)
+ * is unchanged since the last build are not re-parsed. Pass `full` to
+ * re-read and re-parse every note.
+ *
+ * Concurrent callers share the build in progress. A full build requested
+ * while an incremental one runs is queued to start once that one ends.
+ */
+export function buildGraph(options: { full?: boolean } = {}): Promise<RefreshResult> {
+  const builds = buildState();
+  const full = options.full ?? false;
+  if (builds.inFlight && full && !builds.inFlightFull) {
+    builds.pendingFull ??= builds.inFlight
+      .catch(() => undefined)
+      .then(() => {
+        builds.pendingFull = null;
+        return buildGraph({ full: true });
       });
-    }
-    // YAML list form
-    const yamlListMatch = fm.match(/^tags:\s*\n((?:\s+-\s+.+\n?)*)/m);
-    if (yamlListMatch) {
-      yamlListMatch[1].match(/-\s+(.+)/g)?.forEach((line) => {
-        const cleaned = line.replace(/^-\s+/, "").trim().replace(/^["']|["']$/g, "").replace(/^#/, "");
-        if (cleaned) tags.add(cleaned);
+    return builds.pendingFull;
+  }
+  if (!builds.inFlight) {
+    const status = getBuildStatus();
+    status.lastAttempt = new Date();
+    builds.inFlightFull = full;
+    builds.inFlight = exclusive(() => applyBuild(full))
+      .then(
+        (result) => {
+          Object.assign(status, { lastSuccess: new Date(), lastResult: result, lastError: null });
+          return result;
+        },
+        (err) => {
+          status.lastError = (err as Error).message;
+          throw err;
+        }
+      )
+      .finally(() => {
+        builds.inFlight = null;
       });
-    }
   }
+  return builds.inFlight;
+}
 
-  // Inline tags: #tag (not inside code blocks or links)
-  const bodyContent = fmMatch ? content.slice(fmMatch[0].length) : content;
-  const inlineTagRegex = /(?:^|\s)#([a-zA-Z][a-zA-Z0-9_/-]*)/g;
-  let match: RegExpExecArray | null;
-  while ((match = inlineTagRegex.exec(bodyContent)) !== null) {
-    tags.add(match[1]);
-  }
+/** The current vault's build history, as far as diagnostics need it. */
+export function getBuildStatus(): BuildStatus {
+  return vaultState("build-status", (): BuildStatus => ({ lastAttempt: null, lastSuccess: null, lastResult: null, lastError: null }));
+}
+
+/**
+ * Patch the graph with notes just written to the vault, without listing or
+ * reading it. Listeners run as after any build.
+ */
+export function updateNotes(notes: { path: string; content: string }[]): Promise<RefreshResult> {
+  return exclusive(() => applyBuild(false, notes));
+}
 
-  return [...tags];
+/**
+ * The vault's build in progress, shared by concurrent callers, a full build
+ * queued behind it, and the lock serializing graph mutations.
+ */
+function buildState() {
+  return vaultState("builds", () => ({
+    inFlight: null as Promise<RefreshResult> | null,
+    inFlightFull: false,
+    pendingFull: null as Promise<RefreshResult> | null,
+    lock: Promise.resolve() as Promise<unknown>,
+  }));
 }
 
 /**
- * Build (or rebuild) the graph from the vault.
+ * Notes the config leaves out of the vault's graph: by path, and by tag —
+ * with their fingerprint, so unchanged ones are not re-read.
  */
-export async function buildGraph(): Promise<Graph> {
-  const newNodes = new Map<string, GraphNode>();
-  const newEdges = new Map<string, Set<string>>();
-  const newReverseEdges = new Map<string, Set<string>>();
-
-  const paths = await listAllNotes();
-
-  // Read all notes in parallel (batched to avoid overwhelming the API)
-  const BATCH_SIZE = 20;
-  const noteContents = new Map<string, string>();
-
-  for (let i = 0; i < paths.length; i += BATCH_SIZE) {
-    const batch = paths.slice(i, i + BATCH_SIZE);
-    const results = await Promise.allSettled(
-      batch.map(async (p) => ({ path: p, content: await readNote(p) }))
-    );
-    for (const result of results) {
-      if (result.status === "fulfilled") {
-        noteContents.set(result.value.path, result.value.content);
+function exclusions() {
+  return vaultState("exclusions", () => ({
+    byPath: new Set<string>(),
+    byTag: new Map<string, { stat?: string; hash: string }>(),
+  }));
+}
+
+/** Run graph mutations one at a time. */
+function exclusive<T>(task: () => Promise<T>): Promise<T> {
+  const builds = buildState();
+  const run = builds.lock.then(task, task);
+  builds.lock = run.catch(() => undefined);
+  return run;
+}
+
+type RefreshListener = (result: RefreshResult) => void | Promise<void>;
+const refreshListeners: RefreshListener[] = [];
+
+/**
+ * Register a callback run after every completed build, in the vault that was
+ * built. Returns a function that removes it.
+ */
+export function onGraphRefresh(listener: RefreshListener): () => void {
+  refreshListeners.push(listener);
+  return () => {
+    const index = refreshListeners.indexOf(listener);
+    if (index !== -1) refreshListeners.splice(index, 1);
+  };
+}
+
+async function notifyRefresh(result: RefreshResult): Promise<void> {
+  for (const listener of refreshListeners) {
+    try {
+      await listener(result);
+    } catch (err) {
+      console.error("[graph-memory] Refresh listener failed:", err);
+    }
+  }
+}
+
+async function applyBuild(full: boolean, written?: { path: string; content: string }[]): Promise<RefreshResult> {
+  const graph = getGraph();
+  const startTime = Date.now();
+  const source = getVaultSource();
+  // One config for the whole build, even if the file is reloaded meanwhile
+  const settings = getConfig();
+  const excluded = exclusions();
+  const excludedBefore = new Set([...excluded.byPath, ...excluded.byTag.keys()]);
+  // Written notes are taken as given, on top of the notes already known
+  const listing: NoteListing = written
+    ? { notes: written.map((n) => ({ path: n.path })), failed: [] }
+    : await source.listAllNotes();
+  // Notes the config leaves out by path are never read
+  const metas = listing.notes.filter((m) => isIncluded(m.path, settings));
+  const outside = listing.notes.filter((m) => !isIncluded(m.path, settings)).map((m) => m.path);
+  const listed = new Set(metas.map((m) => m.path));
+  // Notes in folders that could not be listed are kept, not removed
+  const unlisted = (path: string) => listing.failed.some((f) => f.path === path || (f.path.endsWith("/") && path.startsWith(f.path)));
+  const gone = (path: string) => !written && !listed.has(path) && !unlisted(path);
+  for (const path of excluded.byPath) {
+    if (!written && !unlisted(path)) excluded.byPath.delete(path);
+  }
+  for (const path of outside) excluded.byPath.add(path);
+  for (const path of graph.noteStates.keys()) {
+    if (written || unlisted(path)) listed.add(path);
+  }
+
+  // Only notes that are new or whose stat fingerprint moved need reading
+  const toRead = metas.filter((meta) => {
+    if (full || written) return true;
+    const state = graph.noteStates.get(meta.path) ?? excluded.byTag.get(meta.path);
+    const stat = statFingerprint(meta);
+    return !state || stat === undefined || state.stat !== stat;
+  });
+
+  // Read notes in parallel, at most `concurrency` at a time
+  const noteContents = new Map<string, string>(written?.map((n) => [n.path, n.content]));
+  const failed = new Map<string, string>();  // path → reason
+  const pending = toRead.filter((m) => !noteContents.has(m.path));
+  let next = 0;
+  const reader = async () => {
+    while (next < pending.length) {
+      const path = pending[next++].path;
+      try {
+        noteContents.set(path, await source.readNote(path));
+      } catch (err) {
+        failed.set(path, (err as Error).message);
       }
     }
+  };
+  await Promise.all(Array.from({ length: Math.min(currentVault().config.concurrency, pending.length) }, reader));
+
+  const result: RefreshResult = {
+    added: [],
+    changed: [],
+    removed: [],
+    unchanged: 0,
+    excluded: 0,
+    failed: [...listing.failed, ...[...failed].map(([path, reason]) => ({ path, reason }))],
+    full,
+    durationMs: 0,
+  };
+
+  // Names (basenames and aliases) that links may now resolve to differently
+  const movedNames = new Set<string>();
+  const markMoved = (node: GraphNode) => {
+    movedNames.add(linkBasename(node.path));
+    for (const alias of node.aliases) movedNames.add(alias.toLowerCase());
+  };
+
+  // Removals
+  for (const path of [...graph.noteStates.keys()]) {
+    if (!listed.has(path)) {
+      markMoved(graph.nodes.get(path)!);
+      removeNote(path);
+      result.removed.push(path);
+    }
   }
+  for (const path of excluded.byTag.keys()) {
+    if (gone(path)) excluded.byTag.delete(path);
+  }
+  const excludeByTag = compileFilter({ tags: settings.excludeTags });
+
+  // Classify reads by content hash, and upsert nodes for anything new or different
+  const dirty: string[] = [];
+  let skipped = 0;
+  for (const meta of toRead) {
+    const previous = graph.noteStates.get(meta.path);
+    // Unreadable notes keep what the graph had, without a stat so the next build retries them
+    if (failed.has(meta.path)) {
+      if (previous) previous.stat = undefined;
+      else skipped++;
+      continue;
+    }
+    const content = noteContents.get(meta.path)!;
+    const hash = hashContent(content);
+    const stat = statFingerprint(meta);
+
+    if (previous && previous.hash === hash && !full) {
+      previous.stat = stat;
+      continue;
+    }
+    const tagged = excluded.byTag.get(meta.path);
+    if (tagged && tagged.hash === hash && !full) {
+      tagged.stat = stat;
+      continue;
+    }
 
-  // Build nodes
-  for (const path of paths) {
-    const name = nameFromPath(path);
-    const content = noteContents.get(path) || "";
-    newNodes.set(name, {
-      path,
-      name,
-      folder: folderFromPath(path),
-      tags: parseTags(content),
+    const previousNode = graph.nodes.get(meta.path);
+    const properties = parseProperties(content);
+    const node: GraphNode = {
+      path: meta.path,
+      name: nameFromPath(meta.path),
+      folder: folderFromPath(meta.path),
+      tags: parseTags(content, properties),
+      aliases: parseAliases(content, properties),
+      properties,
       hasContent: content.trim().length > 0,
-    });
-    newEdges.set(name, new Set());
-    newReverseEdges.set(name, new Set());
+      unresolved: false,
+    };
+    // Notes with an excluded tag are left out, and dropped if they were in
+    if (settings.excludeTags.length > 0 && excludeByTag(node)) {
+      excluded.byTag.set(meta.path, { stat, hash });
+      if (previous) {
+        markMoved(previousNode!);
+        removeNote(meta.path);
+        result.removed.push(meta.path);
+      }
+      continue;
+    }
+    excluded.byTag.delete(meta.path);
+    if (!previous || !previousNode || previousNode.aliases.join("\n") !== node.aliases.join("\n")) {
+      if (previousNode) markMoved(previousNode);
+      markMoved(node);
+    }
+    graph.noteStates.set(meta.path, { stat, hash, links: parseLinks(content).filter((link) => isLinkIncluded(link, settings)) });
+    graph.contents.set(meta.path, content);
+    graph.nodes.set(meta.path, node);
+    if (!graph.reverseEdges.has(meta.path)) graph.reverseEdges.set(meta.path, new Set());
+    dirty.push(meta.path);
+    (previous ? result.changed : result.added).push(meta.path);
+  }
+  const taggedOut = metas.filter((m) => excluded.byTag.has(m.path)).length;
+  result.excluded = outside.length + taggedOut;
+  result.unchanged = metas.length - dirty.length - skipped - taggedOut;
+
+  // Notes that came in or went out of the config: links to them resolve differently
+  const excludedNow = new Set([...excluded.byPath, ...excluded.byTag.keys()]);
+  const toggled = [...excludedNow].filter((p) => !excludedBefore.has(p))
+    .concat([...excludedBefore].filter((p) => !excludedNow.has(p)));
+  for (const path of toggled) movedNames.add(linkBasename(path));
+  if (dirty.length > 0 || result.removed.length > 0 || toggled.length > 0) graph.version++;
+
+  // Re-link every re-parsed note, plus untouched notes whose links may now
+  // resolve differently because a note with the same basename or alias came or went
+  const relink = new Set(dirty);
+  if (movedNames.size > 0) {
+    for (const [path, state] of graph.noteStates) {
+      if (state.links.some((link) => movedNames.has(linkBasename(link.target)))) relink.add(path);
+    }
   }
 
-  // Build edges from wikilinks
-  for (const [path, content] of noteContents) {
-    const sourceName = nameFromPath(path);
-    const links = parseWikilinks(content);
-    for (const target of links) {
-      // Only add edge if target exists in vault
-      if (newNodes.has(target)) {
-        newEdges.get(sourceName)!.add(target);
-        if (!newReverseEdges.has(target)) {
-          newReverseEdges.set(target, new Set());
-        }
-        newReverseEdges.get(target)!.add(sourceName);
+  const resolver = getResolver();
+  const hidden = excludedNow.size > 0 ? createLinkResolver([...excludedNow].map((p) => ({ path: p, aliases: [] }))) : null;
+  for (const path of relink) {
+    clearOutgoing(path);
+    for (const link of graph.noteStates.get(path)!.links) {
+      // Links to notes that don't exist yet point at a ghost node
+      let target = resolver.resolveLink(link.target, path);
+      if (!target) {
+        // Links to notes the config leaves out are dropped, not shown as missing
+        if (hidden?.resolveLink(link.target, path)) continue;
+        target = unresolvedPath(link.target, path);
+        ensureGhost(target);
       }
+      addEdge(path, target, link);
     }
   }
 
-  graph = {
-    nodes: newNodes,
-    edges: newEdges,
-    reverseEdges: newReverseEdges,
-    lastRefresh: new Date(),
+  graph.lastRefresh = new Date();
+  result.durationMs = Date.now() - startTime;
+  await notifyRefresh(result);
+  return result;
+}
+
+/** The graph of the vault the current call runs in. */
+export function getGraph(): Graph {
+  return vaultState("graph", createGraph);
+}
+
+/** Which notes a query may visit or return. Folder and tag matches include subfolders and nested tags. */
+export interface NoteFilter {
+  folders?: string[];           // only notes in these folders
+  excludeFolders?: string[];
+  tags?: string[];              // only notes with at least one of these tags
+  excludeTags?: string[];
+  namePattern?: string;         // regex (case-insensitive) the note name must match
+  excludeNamePattern?: string;  // regex (case-insensitive) the note name must not match
+}
+
+export type Direction = "both" | "outgoing" | "incoming";
+
+/** Options shared by the traversal queries. */
+export interface TraversalOptions {
+  includeUnresolved?: boolean;  // step through ghost nodes for links to notes that don't exist yet
+  linkTypes?: LinkType[];       // only follow edges carrying at least one link of these types (default: all)
+  properties?: string[];        // only follow links written as these frontmatter properties, e.g. ["up", "parent"]
+  direction?: Direction;        // follow links forwards, backwards or both ways (default: both)
+  filter?: NoteFilter;          // notes outside the filter are neither visited nor returned
+}
+
+function compilePattern(pattern: string, label: string): RegExp {
+  try {
+    return new RegExp(pattern, "i");
+  } catch (err) {
+    throw new Error(`Invalid ${label} "${pattern}": ${(err as Error).message}`);
+  }
+}
+
+/** Turn a NoteFilter into a node predicate. Throws on an invalid name pattern. */
+export function compileFilter(filter: NoteFilter = {}): (node: GraphNode) => boolean {
+  const inFolder = (node: GraphNode, folders: string[]) =>
+    folders.some((f) => {
+      const folder = f.replace(/^\/+|\/+$/g, "");
+      return folder === "" || node.folder === folder || node.folder.startsWith(folder + "/");
+    });
+  const hasTag = (node: GraphNode, tags: string[]) =>
+    tags.some((t) => {
+      const tag = t.replace(/^#/, "").toLowerCase();
+      return node.tags.some((nt) => nt.toLowerCase() === tag || nt.toLowerCase().startsWith(tag + "/"));
+    });
+  const include = filter.namePattern ? compilePattern(filter.namePattern, "name pattern") : null;
+  const exclude = filter.excludeNamePattern ? compilePattern(filter.excludeNamePattern, "exclude name pattern") : null;
+
+  return (node) => {
+    if (filter.folders?.length && !inFolder(node, filter.folders)) return false;
+    if (filter.excludeFolders?.length && inFolder(node, filter.excludeFolders)) return false;
+    if (filter.tags?.length && !hasTag(node, filter.tags)) return false;
+    if (filter.excludeTags?.length && hasTag(node, filter.excludeTags)) return false;
+    if (include && !include.test(node.name)) return false;
+    if (exclude && exclude.test(node.name)) return false;
+    return true;
   };
+}
 
-  return graph;
+/** Link occurrences between two nodes in each direction. */
+export function linksBetween(a: string, b: string): { forward: ParsedLink[]; backward: ParsedLink[] } {
+  const graph = getGraph();
+  return {
+    forward: graph.edges.get(a)?.get(b) || [],
+    backward: graph.edges.get(b)?.get(a) || [],
+  };
 }
 
-export function getGraph(): Graph {
-  return graph;
+/**
+ * Links into a note (backlinks) or out of it, grouped by the note on the other
+ * end, each with its line, heading and surrounding paragraph.
+ */
+export function getLinkContexts(
+  path: string,
+  direction: "incoming" | "outgoing",
+  linkTypes?: LinkType[]
+): { name: string; path: string; unresolved: boolean; links: ParsedLink[] }[] {
+  const graph = getGraph();
+  const allowed = linkTypes ? new Set(linkTypes) : null;
+  const pairs: [string, ParsedLink[]][] = direction === "incoming"
+    ? [...(graph.reverseEdges.get(path) || [])].map((source) => [source, graph.edges.get(source)?.get(path) || []])
+    : [...(graph.edges.get(path) || [])];
+
+  const results: { name: string; path: string; unresolved: boolean; links: ParsedLink[] }[] = [];
+  for (const [other, links] of pairs) {
+    const node = graph.nodes.get(other);
+    const kept = allowed ? links.filter((l) => allowed.has(l.type)) : links;
+    if (!node || kept.length === 0) continue;
+    results.push({ name: node.name, path: other, unresolved: node.unresolved, links: kept });
+  }
+  return results.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Link predicate for the link types and properties a traversal follows, or null when it follows all links. */
+export function compileLinkFilter(options: Pick<TraversalOptions, "linkTypes" | "properties">): ((link: ParsedLink) => boolean) | null {
+  const allowedTypes = options.linkTypes ? new Set(options.linkTypes) : null;
+  const allowedProperties = options.properties ? new Set(options.properties.map((p) => p.toLowerCase())) : null;
+  if (!allowedTypes && !allowedProperties) return null;
+  return (l) =>
+    (!allowedTypes || allowedTypes.has(l.type)) &&
+    (!allowedProperties || (l.property !== undefined && allowedProperties.has(l.property.toLowerCase())));
+}
+
+/**
+ * Neighbours of a node in the requested direction, with edge strength
+ * (number of link occurrences of the allowed types and properties). Skips ghosts unless
+ * asked for, and anything `allowNode` rejects.
+ */
+export function neighbors(path: string, options: TraversalOptions, allowNode: (node: GraphNode) => boolean): Map<string, number> {
+  const graph = getGraph();
+  const keep = compileLinkFilter(options);
+  const direction = options.direction ?? "both";
+  const result = new Map<string, number>();
+  const add = (neighbor: string, links: ParsedLink[]) => {
+    const node = graph.nodes.get(neighbor);
+    if (!node || (!options.includeUnresolved && node.unresolved) || !allowNode(node)) return;
+    const weight = keep ? links.filter(keep).length : links.length;
+    if (weight > 0) result.set(neighbor, (result.get(neighbor) || 0) + weight);
+  };
+
+  if (direction !== "incoming") {
+    for (const [target, links] of graph.edges.get(path) || []) add(target, links);
+  }
+  if (direction !== "outgoing") {
+    for (const source of graph.reverseEdges.get(path) || []) add(source, graph.edges.get(source)?.get(path) || []);
+  }
+  return result;
 }
 
 /**
  * BFS to find notes within N hops of a start note.
- * Follows both outgoing and incoming links (undirected traversal).
+ * Follows outgoing and/or incoming links per `direction` (default: both, i.e. undirected).
+ * Results are ordered by distance; `limit` caps how many are returned.
  */
-export function queryRelated(startName: string, depth: number): { name: string; path: string; distance: number }[] {
-  const results: { name: string; path: string; distance: number }[] = [];
+export function queryRelated(
+  startPath: string,
+  depth: number,
+  options: TraversalOptions & { limit?: number } = {}
+): { name: string; path: string; distance: number; unresolved: boolean }[] {
+  const graph = getGraph();
+  const results: { name: string; path: string; distance: number; unresolved: boolean }[] = [];
+  const allowNode = compileFilter(options.filter);
+  const limit = options.limit ?? Infinity;
   const visited = new Set<string>();
-  const queue: { name: string; dist: number }[] = [{ name: startName, dist: 0 }];
-  visited.add(startName);
+  const queue: { path: string; dist: number }[] = [{ path: startPath, dist: 0 }];
+  visited.add(startPath);
 
-  while (queue.length > 0) {
-    const { name, dist } = queue.shift()!;
+  while (queue.length > 0 && results.length < limit) {
+    const { path, dist } = queue.shift()!;
     if (dist > 0) {
-      const node = graph.nodes.get(name);
+      const node = graph.nodes.get(path);
       if (node) {
-        results.push({ name, path: node.path, distance: dist });
+        results.push({ name: node.name, path, distance: dist, unresolved: node.unresolved });
       }
     }
     if (dist < depth) {
-      // Follow both outgoing and incoming links
-      const outgoing = graph.edges.get(name) || new Set();
-      const incoming = graph.reverseEdges.get(name) || new Set();
-      for (const neighbor of new Set([...outgoing, ...incoming])) {
+      for (const neighbor of neighbors(path, options, allowNode).keys()) {
         if (!visited.has(neighbor)) {
           visited.add(neighbor);
-          queue.push({ name: neighbor, dist: dist + 1 });
+          queue.push({ path: neighbor, dist: dist + 1 });
         }
       }
     }
@@ -193,98 +649,225 @@ export function queryRelated(startName: string, depth: number): { name: string;
   return results;
 }
 
+/** Options for path queries. */
+export interface PathOptions extends TraversalOptions {
+  preferStrong?: boolean;  // weight hops by link strength instead of counting them
+  maxHops?: number;        // give up on paths longer than this
+  limit?: number;          // how many equally short paths to return (default: 1)
+}
+
 /**
- * BFS shortest path between two notes.
- * Returns the path as an array of note names, or null if no path.
+ * Shortest paths between two notes. The endpoints are always allowed, even
+ * if the filter would exclude them.
+ *
+ * Plain BFS by hop count, returning up to `limit` equally short paths. With
+ * `preferStrong`, a single Dijkstra path where a hop costs
+ * 1 / (link occurrences between the two notes), so well-linked routes win.
+ * Each path is an array of note paths; empty when there is no path.
  */
-export function findPath(fromName: string, toName: string): string[] | null {
-  if (fromName === toName) return [fromName];
-  if (!graph.nodes.has(fromName) || !graph.nodes.has(toName)) return null;
+export function findPaths(fromPath: string, toPath: string, options: PathOptions = {}): string[][] {
+  const graph = getGraph();
+  if (fromPath === toPath) return [[fromPath]];
+  if (!graph.nodes.has(fromPath) || !graph.nodes.has(toPath)) return [];
+
+  const filter = compileFilter(options.filter);
+  const allowNode = (node: GraphNode) => node.path === toPath || filter(node);
+  const maxHops = options.maxHops ?? Infinity;
+
+  if (options.preferStrong) {
+    const path = strongestPath(fromPath, toPath, options, allowNode, maxHops);
+    return path ? [path] : [];
+  }
 
-  const visited = new Set<string>();
-  const parent = new Map<string, string>();
-  const queue: string[] = [fromName];
-  visited.add(fromName);
-
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    const outgoing = graph.edges.get(current) || new Set();
-    const incoming = graph.reverseEdges.get(current) || new Set();
-    for (const neighbor of new Set([...outgoing, ...incoming])) {
-      if (!visited.has(neighbor)) {
-        visited.add(neighbor);
-        parent.set(neighbor, current);
-        if (neighbor === toName) {
-          // Reconstruct path
-          const path: string[] = [toName];
-          let node = toName;
-          while (parent.has(node)) {
-            node = parent.get(node)!;
-            path.unshift(node);
-          }
-          return path;
+  // BFS level by level, remembering every parent on a shortest route
+  const dist = new Map<string, number>([[fromPath, 0]]);
+  const parents = new Map<string, string[]>();
+  let frontier = [fromPath];
+  let hops = 0;
+
+  while (frontier.length > 0 && !dist.has(toPath) && hops < maxHops) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      for (const neighbor of neighbors(current, options, allowNode).keys()) {
+        if (!dist.has(neighbor)) {
+          dist.set(neighbor, hops + 1);
+          parents.set(neighbor, [current]);
+          next.push(neighbor);
+        } else if (dist.get(neighbor) === hops + 1) {
+          parents.get(neighbor)!.push(current);
         }
-        queue.push(neighbor);
       }
     }
+    frontier = next;
+    hops++;
   }
+  if (!dist.has(toPath)) return [];
+
+  // Enumerate routes back from the target, up to the limit
+  const limit = options.limit ?? 1;
+  const paths: string[][] = [];
+  const walk = (node: string, suffix: string[]) => {
+    if (paths.length >= limit) return;
+    if (node === fromPath) {
+      paths.push([fromPath, ...suffix]);
+      return;
+    }
+    for (const p of parents.get(node) || []) walk(p, [node, ...suffix]);
+  };
+  walk(toPath, []);
+  return paths;
+}
 
+/** Dijkstra where a hop costs 1 / edge strength. */
+function strongestPath(
+  fromPath: string,
+  toPath: string,
+  options: TraversalOptions,
+  allowNode: (node: GraphNode) => boolean,
+  maxHops: number
+): string[] | null {
+  const parent = new Map<string, string>();
+  const cost = new Map<string, number>([[fromPath, 0]]);
+  const hops = new Map<string, number>([[fromPath, 0]]);
+  const frontier = new Set<string>([fromPath]);
+  const done = new Set<string>();
+
+  while (frontier.size > 0) {
+    let current = "";
+    let best = Infinity;
+    for (const p of frontier) {
+      if (cost.get(p)! < best) {
+        best = cost.get(p)!;
+        current = p;
+      }
+    }
+    frontier.delete(current);
+    if (current === toPath) {
+      const route: string[] = [toPath];
+      let node = toPath;
+      while (parent.has(node)) {
+        node = parent.get(node)!;
+        route.unshift(node);
+      }
+      return route;
+    }
+    done.add(current);
+    if (hops.get(current)! >= maxHops) continue;
+
+    for (const [neighbor, weight] of neighbors(current, options, allowNode)) {
+      if (done.has(neighbor)) continue;
+      const next = best + 1 / weight;
+      if (next < (cost.get(neighbor) ?? Infinity)) {
+        cost.set(neighbor, next);
+        hops.set(neighbor, hops.get(current)! + 1);
+        parent.set(neighbor, current);
+        frontier.add(neighbor);
+      }
+    }
+  }
   return null;
 }
 
 /**
- * Get the most connected notes (by total in + out links).
+ * Shortest path between two notes, or null if there is none.
  */
-export function getHubs(topN: number): { name: string; path: string; outgoing: number; incoming: number; total: number }[] {
-  const hubs: { name: string; path: string; outgoing: number; incoming: number; total: number }[] = [];
+export function findPath(fromPath: string, toPath: string, options: PathOptions = {}): string[] | null {
+  return findPaths(fromPath, toPath, { ...options, limit: 1 })[0] ?? null;
+}
 
-  for (const [name, node] of graph.nodes) {
-    const outgoing = graph.edges.get(name)?.size || 0;
-    const incoming = graph.reverseEdges.get(name)?.size || 0;
-    hubs.push({ name, path: node.path, outgoing, incoming, total: outgoing + incoming });
+/**
+ * Undirected, weighted adjacency over real notes (ghosts and self-links left out).
+ * Weight is the number of link occurrences between two notes, in either direction.
+ */
+export function getNoteAdjacency(): Map<string, Map<string, number>> {
+  const graph = getGraph();
+  const adjacency = new Map<string, Map<string, number>>();
+  for (const [path, node] of graph.nodes) {
+    if (!node.unresolved) adjacency.set(path, new Map());
   }
+  for (const [source, targets] of graph.edges) {
+    if (!adjacency.has(source)) continue;
+    for (const [target, links] of targets) {
+      if (target === source || !adjacency.has(target)) continue;
+      const a = adjacency.get(source)!;
+      const b = adjacency.get(target)!;
+      a.set(target, (a.get(target) || 0) + links.length);
+      b.set(source, (b.get(source) || 0) + links.length);
+    }
+  }
+  return adjacency;
+}
 
-  hubs.sort((a, b) => b.total - a.total);
-  return hubs.slice(0, topN);
+/**
+ * Distinct real notes a node links to and is linked from.
+ */
+export function getDegree(path: string): { outgoing: number; incoming: number } {
+  const graph = getGraph();
+  return {
+    outgoing: countNotes(graph.edges.get(path)?.keys()),
+    incoming: countNotes(graph.reverseEdges.get(path)),
+  };
 }
 
 /**
- * Get notes with zero links (both in and out).
+ * Get notes with zero links (both in and out). Links to unresolved targets don't count.
  */
 export function getOrphans(): { name: string; path: string }[] {
+  const graph = getGraph();
   const orphans: { name: string; path: string }[] = [];
 
-  for (const [name, node] of graph.nodes) {
-    const outgoing = graph.edges.get(name)?.size || 0;
-    const incoming = graph.reverseEdges.get(name)?.size || 0;
+  for (const [path, node] of graph.nodes) {
+    if (node.unresolved) continue;
+    const outgoing = countNotes(graph.edges.get(path)?.keys());
+    const incoming = countNotes(graph.reverseEdges.get(path));
     if (outgoing === 0 && incoming === 0) {
-      orphans.push({ name, path: node.path });
+      orphans.push({ name: node.name, path });
     }
   }
 
   return orphans;
 }
 
+/**
+ * Unresolved link targets, most referenced first.
+ */
+export function getUnresolved(): { name: string; path: string; count: number; sources: string[] }[] {
+  const graph = getGraph();
+  const unresolved: { name: string; path: string; count: number; sources: string[] }[] = [];
+
+  for (const [path, node] of graph.nodes) {
+    if (!node.unresolved) continue;
+    const sources = [...(graph.reverseEdges.get(path) || [])].sort();
+    unresolved.push({ name: node.name, path, count: sources.length, sources });
+  }
+
+  unresolved.sort((a, b) => b.count - a.count || a.path.localeCompare(b.path));
+  return unresolved;
+}
+
 /**
  * Group notes by folder or tag.
  */
 export function getClusters(by: "folder" | "tag"): { cluster: string; notes: { name: string; path: string }[] }[] {
+  const graph = getGraph();
   const groups = new Map<string, { name: string; path: string }[]>();
 
-  for (const [name, node] of graph.nodes) {
+  for (const node of graph.nodes.values()) {
+    if (node.unresolved) continue;
+    const { name, path } = node;
     if (by === "folder") {
       const key = node.folder || "(root)";
       if (!groups.has(key)) groups.set(key, []);
-      groups.get(key)!.push({ name, path: node.path });
+      groups.get(key)!.push({ name, path });
     } else {
       // tag — a note can appear in multiple clusters
       if (node.tags.length === 0) {
         if (!groups.has("(untagged)")) groups.set("(untagged)", []);
-        groups.get("(untagged)")!.push({ name, path: node.path });
+        groups.get("(untagged)")!.push({ name, path });
       } else {
         for (const tag of node.tags) {
           if (!groups.has(tag)) groups.set(tag, []);
-          groups.get(tag)!.push({ name, path: node.path });
+          groups.get(tag)!.push({ name, path });
         }
       }
     }
@@ -303,26 +886,39 @@ export function getStats(): {
   totalLinks: number;
   totalTags: number;
   orphanCount: number;
+  unresolvedLinks: number;
+  unresolvedTargets: number;
   avgLinksPerNote: number;
   lastRefresh: string;
   folders: number;
 } {
+  const graph = getGraph();
+  let totalNotes = 0;
   let totalLinks = 0;
+  let unresolvedLinks = 0;
+  let unresolvedTargets = 0;
   const allTags = new Set<string>();
   const folders = new Set<string>();
 
-  for (const [name, node] of graph.nodes) {
-    totalLinks += graph.edges.get(name)?.size || 0;
+  for (const [path, node] of graph.nodes) {
+    if (node.unresolved) {
+      unresolvedTargets++;
+      unresolvedLinks += graph.reverseEdges.get(path)?.size || 0;
+      continue;
+    }
+    totalNotes++;
+    totalLinks += countNotes(graph.edges.get(path)?.keys());
     for (const tag of node.tags) allTags.add(tag);
     if (node.folder) folders.add(node.folder);
   }
 
-  const totalNotes = graph.nodes.size;
   return {
     totalNotes,
     totalLinks,
     totalTags: allTags.size,
     orphanCount: getOrphans().length,
+    unresolvedLinks,
+    unresolvedTargets,
     avgLinksPerNote: totalNotes > 0 ? Math.round((totalLinks / totalNotes) * 100) / 100 : 0,
     lastRefresh: graph.lastRefresh.toISOString(),
     folders: folders.size,
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, renameSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { buildGraph } from "./graph.js";
+import { formatVersion, getChanges, getCurrentVersion, parseVersion, recordGraphVersion } from "./history.js";
+
+const root = mkdtempSync(join(tmpdir(), "graph-memory-test-"));
+process.env.OBSIDIAN_VAULT_PATH = root;
+
+// Fingerprints are mtime and size: give every write its own mtime
+let clock = Date.now() / 1000;
+
+function write(path: string, content: string): void {
+  writeFileSync(join(root, path), content);
+  clock += 10;
+  utimesSync(join(root, path), clock, clock);
+}
+
+/** Rebuild and record the new version, as the server does after every refresh. */
+async function refresh(): Promise<number> {
+  await buildGraph();
+  recordGraphVersion();
+  return getCurrentVersion();
+}
+
+test("diffs versions and merges them into net changes", async (t) => {
+  t.after(() => rmSync(root, { recursive: true, force: true }));
+
+  write("A.md", "---\ntags: [one]\n---\nLinks to [[B]].\n");
+  write("B.md", "B\n");
+  write("C.md", "Unchanging content.\n");
+  const start = await refresh();
+  assert.equal(getChanges().versions, 0, "the first build is only the baseline");
+
+  write("A.md", "---\ntags: [two]\n---\nLinks to [[C]].\n");
+  write("D.md", "New\n");
+  const second = await refresh();
+  let changes = getChanges(start);
+  assert.deepEqual(changes.added, ["D.md"]);
+  assert.deepEqual(changes.edited, ["A.md"]);
+  assert.deepEqual(changes.linksAdded, [{ source: "A.md", target: "C.md" }]);
+  assert.deepEqual(changes.linksRemoved, [{ source: "A.md", target: "B.md" }]);
+  assert.deepEqual(changes.tagsChanged, [{ path: "A.md", added: ["two"], removed: ["one"] }]);
+
+  renameSync(join(root, "C.md"), join(root, "E.md"));
+  rmSync(join(root, "D.md"));
+  await refresh();
+  changes = getChanges(second);
+  assert.deepEqual(changes.renamed, [{ from: "C.md", to: "E.md" }], "same content under a new path is a rename");
+  assert.deepEqual(changes.removed, ["D.md"]);
+
+  // Across all three versions, D came and went, and A's tags and links changed back and forth
+  write("A.md", "---\ntags: [one]\n---\nLinks to [[B]].\n");
+  await refresh();
+  changes = getChanges(start);
+  assert.equal(changes.versions, 3);
+  assert.deepEqual(changes.added, []);
+  assert.deepEqual(changes.removed, []);
+  assert.deepEqual(changes.renamed, [{ from: "C.md", to: "E.md" }]);
+  assert.deepEqual(changes.tagsChanged, []);
+  assert.deepEqual(changes.linksRemoved, [], "A's link to B was restored");
+  assert.deepEqual(changes.edited, ["A.md"]);
+
+  assert.equal(getChanges(getCurrentVersion()).versions, 0);
+  assert.equal(getChanges(new Date(0)).versions, 3);
+});
+
+test("versions carry this run's epoch", () => {
+  assert.equal(parseVersion(formatVersion(12)), 12);
+  assert.throws(() => parseVersion("12"), /not from the running server/);
+  assert.throws(() => parseVersion("zzz-12"), /not from the running server/);
+  assert.throws(() => parseVersion("twelve"), /not a graph version/);
+});
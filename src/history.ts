@@ -0,0 +1,246 @@
+/**
+ * Graph change history.
+ * After every build that changes the graph, the new state is diffed against
+ * the last recorded one: notes added, removed, renamed (same content under a
+ * new path) or edited, links added or removed, and tags changed. The last
+ * MAX_HISTORY diffs are kept in memory, so callers can ask what changed since
+ * a version or a point in time.
+ *
+ * Versions start over when the server restarts, so they are shown with an
+ * epoch for this run, e.g. "m1x2k9a0-12", and versions from an earlier run
+ * are refused rather than compared against an unrelated state.
+ */
+
+import { getGraph } from "./graph.js";
+import { vaultState } from "./vaults.js";
+
+export interface GraphChange {
+  version: number;
+  timestamp: Date;
+  added: string[];
+  removed: string[];
+  renamed: { from: string; to: string }[];
+  edited: string[];
+  linksAdded: { source: string; target: string }[];
+  linksRemoved: { source: string; target: string }[];
+  tagsChanged: { path: string; added: string[]; removed: string[] }[];
+}
+
+export interface ChangeSummary extends Omit<GraphChange, "version" | "timestamp"> {
+  fromVersion: number;   // changes after this version...
+  toVersion: number;     // ...up to and including this one
+  versions: number;      // how many recorded versions were merged
+  truncated: boolean;    // `since` is older than the retained history
+  oldestVersion: number | null;
+}
+
+const MAX_HISTORY = 100;
+const EPOCH = Date.now().toString(36);
+
+/** What the history compares against: per note, its content hash, tags and link targets. */
+interface NoteRecord {
+  hash: string;
+  tags: string[];
+  targets: Set<string>;
+}
+
+interface History {
+  baseline: { version: number; notes: Map<string, NoteRecord> } | null;
+  entries: GraphChange[];
+  dropped: boolean;  // older entries have been discarded
+}
+
+/** The current vault's history. */
+function vaultHistory(): History {
+  return vaultState("history", () => ({ baseline: null, entries: [], dropped: false }));
+}
+
+function captureNotes(): Map<string, NoteRecord> {
+  const graph = getGraph();
+  const notes = new Map<string, NoteRecord>();
+  for (const [path, state] of graph.noteStates) {
+    notes.set(path, {
+      hash: state.hash,
+      tags: graph.nodes.get(path)?.tags ?? [],
+      targets: new Set(graph.edges.get(path)?.keys() || []),
+    });
+  }
+  return notes;
+}
+
+function diff(before: Map<string, NoteRecord>, after: Map<string, NoteRecord>): Omit<GraphChange, "version" | "timestamp"> {
+  const change: Omit<GraphChange, "version" | "timestamp"> = {
+    added: [], removed: [], renamed: [], edited: [], linksAdded: [], linksRemoved: [], tagsChanged: [],
+  };
+
+  const added = [...after.keys()].filter((p) => !before.has(p));
+  const removed = [...before.keys()].filter((p) => !after.has(p));
+
+  // A removed and an added note with the same content is a rename
+  const removedByHash = new Map<string, string[]>();
+  for (const p of removed) {
+    const hash = before.get(p)!.hash;
+    if (!removedByHash.has(hash)) removedByHash.set(hash, []);
+    removedByHash.get(hash)!.push(p);
+  }
+  const renamedFrom = new Set<string>();
+  for (const p of added) {
+    const from = removedByHash.get(after.get(p)!.hash)?.shift();
+    if (from) {
+      change.renamed.push({ from, to: p });
+      renamedFrom.add(from);
+    } else {
+      change.added.push(p);
+    }
+  }
+  change.removed = removed.filter((p) => !renamedFrom.has(p));
+
+  for (const [path, now] of after) {
+    const then = before.get(path);
+    for (const target of now.targets) {
+      if (!then?.targets.has(target)) change.linksAdded.push({ source: path, target });
+    }
+    if (!then) continue;
+    if (then.hash !== now.hash) change.edited.push(path);
+    for (const target of then.targets) {
+      if (!now.targets.has(target)) change.linksRemoved.push({ source: path, target });
+    }
+    const tagsAdded = now.tags.filter((t) => !then.tags.includes(t));
+    const tagsRemoved = then.tags.filter((t) => !now.tags.includes(t));
+    if (tagsAdded.length > 0 || tagsRemoved.length > 0) change.tagsChanged.push({ path, added: tagsAdded, removed: tagsRemoved });
+  }
+  for (const [path, then] of before) {
+    if (after.has(path)) continue;
+    for (const target of then.targets) change.linksRemoved.push({ source: path, target });
+  }
+
+  return change;
+}
+
+/**
+ * Record the current graph. The first call only sets the baseline; later
+ * calls add a diff to the history when the graph version moved.
+ */
+export function recordGraphVersion(): void {
+  const graph = getGraph();
+  const history = vaultHistory();
+  if (history.baseline && history.baseline.version === graph.version) return;
+
+  const notes = captureNotes();
+  if (history.baseline) {
+    history.entries.push({ version: graph.version, timestamp: new Date(), ...diff(history.baseline.notes, notes) });
+    if (history.entries.length > MAX_HISTORY) {
+      history.entries.shift();
+      history.dropped = true;
+    }
+  }
+  history.baseline = { version: graph.version, notes };
+}
+
+/** A version as shown to callers: "m1x2k9a0-12". */
+export function formatVersion(version: number): string {
+  return `${EPOCH}-${version}`;
+}
+
+/** Parse a version from `formatVersion`. Throws for versions from another run of the server. */
+export function parseVersion(text: string): number {
+  const match = text.trim().match(/^(?:([0-9a-z]+)-)?(\d+)$/i);
+  if (!match) throw new Error(`"${text}" is not a graph version`);
+  if (match[1]?.toLowerCase() !== EPOCH) {
+    throw new Error(
+      `Version "${text}" is not from the running server (its versions look like "${formatVersion(getCurrentVersion())}") — ` +
+      "versions start over when the server restarts. Pass a timestamp instead, or omit since for all retained history."
+    );
+  }
+  return Number(match[2]);
+}
+
+/** The current graph version as far as the history is concerned. */
+export function getCurrentVersion(): number {
+  return vaultHistory().baseline?.version ?? getGraph().version;
+}
+
+/**
+ * Net changes after a version number or a point in time (default: the whole
+ * retained history). Changes that cancel out — a note added then removed, a
+ * link removed then restored — are dropped.
+ */
+export function getChanges(since?: number | Date): ChangeSummary {
+  const history = vaultHistory();
+  const entries = history.entries.filter((c) =>
+    since === undefined ? true : typeof since === "number" ? c.version > since : c.timestamp > since
+  );
+  const oldest = history.entries[0];
+  const truncated = history.dropped && since !== undefined && entries.length === history.entries.length &&
+    (typeof since === "number" ? since < oldest.version - 1 : since < oldest.timestamp);
+
+  // Replay the entries onto a "before" picture so the result is a net diff
+  const added = new Set<string>();
+  const removed = new Set<string>();
+  const edited = new Set<string>();
+  const renamed = new Map<string, string>();  // current path → original path
+  const links = new Map<string, boolean>();   // "source\0target" → true added / false removed
+  const tags = new Map<string, Map<string, boolean>>();  // path → tag → added/removed
+
+  const toggle = <K>(map: Map<K, boolean>, key: K, value: boolean) => {
+    if (map.get(key) === !value) map.delete(key);
+    else map.set(key, value);
+  };
+
+  for (const c of entries) {
+    for (const p of c.added) {
+      if (removed.delete(p)) edited.add(p);
+      else added.add(p);
+    }
+    for (const p of c.removed) {
+      const original = renamed.get(p);
+      renamed.delete(p);
+      edited.delete(p);
+      if (!added.delete(p)) removed.add(original ?? p);
+    }
+    for (const { from, to } of c.renamed) {
+      const original = renamed.get(from) ?? from;
+      renamed.delete(from);
+      if (added.delete(from)) added.add(to);
+      else if (original !== to) renamed.set(to, original);
+      if (edited.delete(from)) edited.add(to);
+    }
+    for (const p of c.edited) if (!added.has(p)) edited.add(p);
+    for (const { source, target } of c.linksAdded) toggle(links, `${source}\0${target}`, true);
+    for (const { source, target } of c.linksRemoved) toggle(links, `${source}\0${target}`, false);
+    for (const t of c.tagsChanged) {
+      if (!tags.has(t.path)) tags.set(t.path, new Map());
+      for (const tag of t.added) toggle(tags.get(t.path)!, tag, true);
+      for (const tag of t.removed) toggle(tags.get(t.path)!, tag, false);
+    }
+  }
+
+  const pairs = (value: boolean) =>
+    [...links].filter(([, v]) => v === value).map(([key]) => {
+      const [source, target] = key.split("\0");
+      return { source, target };
+    });
+  const sorted = (set: Set<string>) => [...set].sort();
+
+  return {
+    fromVersion: entries.length > 0 ? entries[0].version - 1 : getCurrentVersion(),
+    toVersion: getCurrentVersion(),
+    versions: entries.length,
+    truncated,
+    oldestVersion: oldest ? oldest.version : null,
+    added: sorted(added),
+    removed: sorted(removed),
+    renamed: [...renamed].map(([to, from]) => ({ from, to })).sort((a, b) => a.to.localeCompare(b.to)),
+    edited: sorted(edited),
+    linksAdded: pairs(true),
+    linksRemoved: pairs(false),
+    tagsChanged: [...tags]
+      .map(([path, m]) => ({
+        path,
+        added: [...m].filter(([, v]) => v).map(([t]) => t),
+        removed: [...m].filter(([, v]) => !v).map(([t]) => t),
+      }))
+      .filter((t) => t.added.length > 0 || t.removed.length > 0)
+      .sort((a, b) => a.path.localeCompare(b.path)),
+  };
+}
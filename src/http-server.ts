@@ -0,0 +1,205 @@
+/**
+ * HTTP transports, so one long-running server can share its graph with many
+ * agents. Serves Streamable HTTP on /mcp and the legacy SSE transport on
+ * /sse (stream) + /messages (posts). Every session gets its own MCP server
+ * instance; all of them read the same in-memory graph.
+ *
+ * Sessions of either transport that see no requests for `sessionTimeout` are
+ * closed, as is the least recently used one when there are more than
+ * `maxSessions` in all. An SSE stream alone doesn't keep its session active:
+ * only the messages posted to it do. Requests whose Host or Origin isn't an allowed host name are
+ * refused, so a web page can't reach a local server through DNS rebinding.
+ */
+
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  token?: string;  // required as "Authorization: Bearer <token>" when set
+  allowedHosts?: string[];  // default: loopback names and `host`, or any host when there is a token
+  sessionTimeout: number;   // ms without requests before a session is closed
+  maxSessions: number;
+}
+
+type Transport = StreamableHTTPServerTransport | SSEServerTransport;
+
+interface Session<T extends Transport = Transport> {
+  transport: T;
+  lastActive: number;
+  open: number;  // requests (and streams) still in progress
+}
+
+const LOOPBACK = new Set(["127.0.0.1", "::1", "localhost"]);
+const WILDCARD = new Set(["0.0.0.0", "::"]);
+
+/** Host names requests may be addressed to, or null for any. */
+function allowedHostnames(options: HttpOptions): Set<string> | null {
+  if (options.allowedHosts) return new Set(options.allowedHosts.map((h) => h.toLowerCase()));
+  if (options.token) return null;
+  const names = ["localhost", "127.0.0.1", "[::1]"];
+  if (!WILDCARD.has(options.host)) names.push(options.host.includes(":") ? `[${options.host}]` : options.host);
+  return new Set(names.map((h) => h.toLowerCase()));
+}
+
+/** Whether the Host header, and the Origin header if any, name an allowed host. */
+function isAllowedHost(req: IncomingMessage, allowed: Set<string> | null): boolean {
+  if (!allowed) return true;
+  const hostname = (url: string) => {
+    try {
+      return new URL(url).hostname.toLowerCase();
+    } catch {
+      return null;
+    }
+  };
+  const host = hostname(`http://${req.headers.host || ""}`);
+  if (!host || !allowed.has(host)) return false;
+  const origin = req.headers.origin;
+  return origin === undefined || allowed.has(hostname(origin) ?? "");
+}
+
+function isAuthorized(req: IncomingMessage, token: string | undefined): boolean {
+  if (!token) return true;
+  const header = req.headers.authorization || "";
+  const given = Buffer.from(header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "");
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** A JSON-RPC error response outside of any session. */
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+/**
+ * Listen for MCP clients over HTTP. `createMcpServer` is called once per
+ * session; closing the session closes that server.
+ */
+export async function startHttpServer(createMcpServer: () => McpServer, options: HttpOptions): Promise<void> {
+  const sessions = new Map<string, Session<StreamableHTTPServerTransport>>();  // by Mcp-Session-Id header
+  const sseSessions = new Map<string, Session<SSEServerTransport>>();        // by sessionId query parameter
+  const allowed = allowedHostnames(options);
+
+  /** Count a request against its session until the response is done. */
+  function track(session: Session, res: ServerResponse): void {
+    session.open++;
+    session.lastActive = Date.now();
+    res.on("close", () => {
+      session.open--;
+      session.lastActive = Date.now();
+    });
+  }
+
+  function closeSession(id: string, reason: string): void {
+    const session = sessions.get(id) ?? sseSessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    sseSessions.delete(id);
+    console.error(`[graph-memory] Closing HTTP session ${id}: ${reason}.`);
+    session.transport.close().catch((err) => console.error(`[graph-memory] Failed to close HTTP session ${id}:`, err));
+  }
+
+  /** Close the least recently used session, preferably an idle one, while there are too many. */
+  function enforceLimit(newId: string): void {
+    if (sessions.size + sseSessions.size <= options.maxSessions) return;
+    const entries = [...sessions, ...sseSessions].filter(([other]) => other !== newId);
+    const idle = entries.filter(([, s]) => s.open === 0);
+    const [oldest] = (idle.length > 0 ? idle : entries).sort(([, a], [, b]) => a.lastActive - b.lastActive)[0];
+    closeSession(oldest, `more than ${options.maxSessions} sessions`);
+  }
+
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [id, session] of [...sessions, ...sseSessions]) {
+      if (session.open === 0 && now - session.lastActive > options.sessionTimeout) closeSession(id, "idle");
+    }
+  }, Math.min(options.sessionTimeout, 60 * 1000));
+  sweep.unref();
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+    if (!isAllowedHost(req, allowed)) {
+      sendError(res, 403, "Host not allowed — add it to GRAPH_HTTP_ALLOWED_HOSTS");
+      return;
+    }
+    if (!isAuthorized(req, options.token)) {
+      sendError(res, 401, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+      return;
+    }
+
+    if (url.pathname === "/mcp") {
+      const sessionId = req.headers["mcp-session-id"];
+      if (typeof sessionId === "string") {
+        const session = sessions.get(sessionId);
+        if (!session) return sendError(res, 404, "Session not found");
+        track(session, res);
+        return session.transport.handleRequest(req, res);
+      }
+      if (req.method !== "POST") return sendError(res, 400, "No session — start one with an initialize request");
+
+      // New session: the transport rejects anything that isn't an initialize request
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          const session = { transport, lastActive: Date.now(), open: 0 };
+          sessions.set(id, session);
+          track(session, res);
+          enforceLimit(id);
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
+      await createMcpServer().connect(transport);
+      await transport.handleRequest(req, res);
+      if (!transport.sessionId) await transport.close();
+      return;
+    }
+
+    if (url.pathname === "/sse" && req.method === "GET") {
+      // The stream stays open for the whole session, so it isn't counted as a request in progress
+      const transport = new SSEServerTransport("/messages", res);
+      sseSessions.set(transport.sessionId, { transport, lastActive: Date.now(), open: 0 });
+      transport.onclose = () => {
+        sseSessions.delete(transport.sessionId);
+      };
+      await createMcpServer().connect(transport);
+      enforceLimit(transport.sessionId);
+      return;
+    }
+
+    if (url.pathname === "/messages" && req.method === "POST") {
+      const session = sseSessions.get(url.searchParams.get("sessionId") || "");
+      if (!session) return sendError(res, 404, "Session not found");
+      track(session, res);
+      return session.transport.handlePostMessage(req, res);
+    }
+
+    sendError(res, 404, "Not found — MCP is served on /mcp (Streamable HTTP) and /sse (legacy SSE)");
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((err) => {
+      console.error("[graph-memory] HTTP request failed:", err);
+      if (!res.headersSent) sendError(res, 500, "Internal server error");
+      else res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => resolve());
+  });
+
+  if (!options.token && !LOOPBACK.has(options.host)) {
+    console.error(`[graph-memory] Warning: listening on ${options.host} without GRAPH_HTTP_TOKEN — anyone who can reach it can use the server.`);
+  }
+  if (allowed) console.error(`[graph-memory] Accepting HTTP requests for hosts: ${[...allowed].join(", ")}.`);
+  console.error(`[graph-memory] MCP server listening on http://${options.host}:${options.port}/mcp (legacy SSE on /sse).`);
+}
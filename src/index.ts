@@ -3,36 +3,46 @@
 /**
  * obsidian-graph-memory — MCP server exposing Obsidian vault graph structure.
  *
- * Connects to the Obsidian Local REST API, builds an in-memory graph of notes
- * and wikilinks, and exposes graph query tools to AI agents via MCP.
+ * Reads one or more vaults through the Obsidian Local REST API (or directly from
+ * disk when OBSIDIAN_VAULT_PATH is set), builds an in-memory graph of notes and wikilinks,
+ * and exposes graph query tools — plus tools to write notes back — to AI agents via MCP.
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { buildGraph } from "./graph.js";
+import { buildGraph, getGraph, onGraphRefresh, type RefreshResult } from "./graph.js";
+import { getSnapshotPath, loadSnapshot, saveSnapshot } from "./snapshot.js";
+import { updateSearchIndex } from "./search.js";
+import { recordGraphVersion } from "./history.js";
+import { registerResources } from "./resources.js";
+import { startHttpServer } from "./http-server.js";
+import { currentVault, getRefreshInterval, getVaults, inVault, parseDuration, type Vault } from "./vaults.js";
+import { graphSettingsKey, loadConfig, watchConfig, type GraphConfig } from "./config.js";
 import { registerQueryRelated } from "./tools/query-related.js";
 import { registerFindPath } from "./tools/find-path.js";
+import { registerGetBacklinks } from "./tools/get-backlinks.js";
 import { registerGetHubs } from "./tools/get-hubs.js";
 import { registerGetOrphans } from "./tools/get-orphans.js";
 import { registerGetClusters } from "./tools/get-clusters.js";
 import { registerGetStats } from "./tools/get-stats.js";
+import { registerGetUnresolved } from "./tools/get-unresolved.js";
+import { registerSuggestLinks } from "./tools/suggest-links.js";
+import { registerSearch } from "./tools/search.js";
+import { registerSimilarNotes } from "./tools/similar-notes.js";
+import { registerFindByProperty } from "./tools/find-by-property.js";
+import { registerQuery } from "./tools/query.js";
+import { registerExport } from "./tools/export.js";
+import { registerGetSubgraph } from "./tools/get-subgraph.js";
+import { registerGetChanges } from "./tools/get-changes.js";
+import { registerCreateNote } from "./tools/create-note.js";
+import { registerAppendToNote } from "./tools/append-to-note.js";
+import { registerAddLink } from "./tools/add-link.js";
+import { registerSetProperties } from "./tools/set-properties.js";
+import { registerGetDiagnostics } from "./tools/get-diagnostics.js";
 import { registerRefresh } from "./tools/refresh.js";
 
-function parseInterval(value: string | undefined): number {
-  if (!value) return 5 * 60 * 1000; // default 5 minutes
-  const match = value.match(/^(\d+)(ms|s|m|h)$/);
-  if (!match) return 5 * 60 * 1000;
-  const num = parseInt(match[1], 10);
-  switch (match[2]) {
-    case "ms": return num;
-    case "s": return num * 1000;
-    case "m": return num * 60 * 1000;
-    case "h": return num * 60 * 60 * 1000;
-    default: return 5 * 60 * 1000;
-  }
-}
-
-async function main() {
+/** An MCP server with every tool and resource — one per client session. */
+function createMcpServer(): McpServer {
   const server = new McpServer({
     name: "obsidian-graph-memory",
     version: "1.0.1",
@@ -41,38 +51,192 @@ async function main() {
   // Register all tools
   registerQueryRelated(server);
   registerFindPath(server);
+  registerGetBacklinks(server);
   registerGetHubs(server);
   registerGetOrphans(server);
   registerGetClusters(server);
   registerGetStats(server);
+  registerGetUnresolved(server);
+  registerSuggestLinks(server);
+  registerSearch(server);
+  registerSimilarNotes(server);
+  registerFindByProperty(server);
+  registerQuery(server);
+  registerExport(server);
+  registerGetSubgraph(server);
+  registerGetChanges(server);
+  registerCreateNote(server);
+  registerAppendToNote(server);
+  registerAddLink(server);
+  registerSetProperties(server);
+  registerGetDiagnostics(server);
   registerRefresh(server);
 
-  // Build initial graph
-  console.error("[graph-memory] Building initial graph...");
-  try {
-    await buildGraph();
-    console.error("[graph-memory] Graph built successfully.");
-  } catch (err) {
-    console.error("[graph-memory] Failed to build initial graph:", err);
-    console.error("[graph-memory] Server will start anyway — use graph_refresh to retry.");
+  // Notes and graph views as browsable, subscribable resources
+  registerResources(server);
+
+  return server;
+}
+
+const DEFAULT_SESSION_TIMEOUT = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 100;
+
+function parsePort(value: string | undefined): number {
+  if (!value) return 3000;
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) throw new Error(`Invalid GRAPH_HTTP_PORT "${value}"`);
+  return port;
+}
+
+function parseMaxSessions(value: string | undefined): number {
+  if (!value) return DEFAULT_MAX_SESSIONS;
+  const max = Number(value);
+  if (!Number.isInteger(max) || max < 1) throw new Error(`Invalid GRAPH_HTTP_MAX_SESSIONS "${value}"`);
+  return max;
+}
+
+/** "+3 ~1 -0 in 120ms", plus how many paths could not be read. */
+function describeResult(result: RefreshResult): string {
+  const failed = result.failed.length > 0 ? `, ${result.failed.length} unreadable` : "";
+  return `+${result.added.length} ~${result.changed.length} -${result.removed.length} in ${result.durationMs}ms${failed}`;
+}
+
+/** Log prefix for a vault's messages; named only when there are several vaults. */
+function logPrefix(vault: Vault): string {
+  return getVaults().length > 1 ? `[graph-memory] [${vault.config.name}]` : "[graph-memory]";
+}
+
+const refreshTimers = new Map<Vault, { interval: number; timer: NodeJS.Timeout }>();
+
+/** (Re)schedule a vault's periodic refresh, when its interval changed. */
+function scheduleRefresh(vault: Vault): void {
+  const log = logPrefix(vault);
+  const interval = getRefreshInterval(vault);
+  const scheduled = refreshTimers.get(vault);
+  if (scheduled?.interval === interval) return;
+  if (scheduled) clearInterval(scheduled.timer);
+
+  console.error(`${log} Auto-refresh every ${interval / 1000}s`);
+  const timer = setInterval(() => inVault(vault, async () => {
+    try {
+      const result = await buildGraph();
+      console.error(
+        `${log} Graph refreshed: ${describeResult(result)}.`
+      );
+    } catch (err) {
+      console.error(`${log} Refresh failed:`, err);
+    }
+  }), interval);
+  refreshTimers.set(vault, { interval, timer });
+}
+
+/** Load a vault's snapshot, build its graph and schedule its refreshes. Runs in the vault. */
+async function startVault(vault: Vault): Promise<void> {
+  const log = logPrefix(vault);
+  console.error(`${log} Vault source: ${vault.source.description}`);
+
+  // Load the cached graph
+  const snapshotPath = getSnapshotPath();
+  let snapshotLoaded = false;
+  if (snapshotPath) {
+    snapshotLoaded = await loadSnapshot(snapshotPath);
+    if (snapshotLoaded) {
+      console.error(`${log} Loaded graph snapshot from ${snapshotPath} (${getGraph().nodes.size} notes).`);
+      updateSearchIndex();
+      recordGraphVersion();
+    }
+  }
+
+  // Build initial graph — in the background when a snapshot is already serving queries
+  if (snapshotLoaded) {
+    console.error(`${log} Reconciling snapshot with vault in the background...`);
+    buildGraph().then(
+      (result) => console.error(
+        `${log} Snapshot reconciled: ${describeResult(result)}.`
+      ),
+      (err) => console.error(`${log} Failed to reconcile snapshot:`, err)
+    );
+  } else {
+    console.error(`${log} Building initial graph...`);
+    try {
+      const result = await buildGraph();
+      console.error(`${log} Graph built successfully${result.failed.length > 0 ? ` — ${result.failed.length} path(s) could not be read, see graph_get_diagnostics` : ""}.`);
+    } catch (err) {
+      console.error(`${log} Failed to build initial graph:`, err);
+      console.error(`${log} Server will start anyway — use graph_refresh to retry.`);
+    }
   }
 
   // Schedule periodic refresh
-  const interval = parseInterval(process.env.GRAPH_REFRESH_INTERVAL);
-  console.error(`[graph-memory] Auto-refresh every ${interval / 1000}s`);
-  setInterval(async () => {
+  scheduleRefresh(vault);
+}
+
+/** Apply a reloaded config: rebuild graphs whose rules changed, and reschedule refreshes. */
+async function applyConfig(previous: GraphConfig): Promise<void> {
+  const rulesChanged = graphSettingsKey(previous) !== graphSettingsKey();
+  for (const vault of getVaults()) {
+    scheduleRefresh(vault);
+    if (!rulesChanged) continue;
+    const log = logPrefix(vault);
     try {
-      await buildGraph();
-      console.error("[graph-memory] Graph refreshed.");
+      const result = await inVault(vault, () => buildGraph({ full: true }));
+      console.error(`${log} Graph rebuilt for the new config: ${describeResult(result)}, ${result.excluded} excluded.`);
     } catch (err) {
-      console.error("[graph-memory] Refresh failed:", err);
+      console.error(`${log} Rebuild after config change failed:`, err);
     }
-  }, interval);
+  }
+}
+
+async function main() {
+  const transport = process.env.GRAPH_TRANSPORT || "stdio";
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Unknown GRAPH_TRANSPORT "${transport}" (expected stdio or http)`);
+  }
+  const httpOptions = transport === "http"
+    ? {
+        host: process.env.GRAPH_HTTP_HOST || "127.0.0.1",
+        port: parsePort(process.env.GRAPH_HTTP_PORT),
+        token: process.env.GRAPH_HTTP_TOKEN || undefined,
+        allowedHosts: process.env.GRAPH_HTTP_ALLOWED_HOSTS?.split(",").map((h) => h.trim()).filter(Boolean),
+        sessionTimeout: parseDuration("GRAPH_HTTP_SESSION_TIMEOUT", DEFAULT_SESSION_TIMEOUT),
+        maxSessions: parseMaxSessions(process.env.GRAPH_HTTP_MAX_SESSIONS),
+      }
+    : null;
+
+  // Which notes enter the graph, and how links are read
+  const configPath = await loadConfig();
+  if (configPath) console.error(`[graph-memory] Using config ${configPath}`);
+
+  const vaults = getVaults();
 
-  // Start MCP stdio transport
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("[graph-memory] MCP server running on stdio.");
+  // Keep the search index in step with the graph
+  onGraphRefresh(() => updateSearchIndex());
+  // Record what each build changed
+  onGraphRefresh(() => recordGraphVersion());
+  // Keep each vault's cache current after every build that changes it
+  const saved = new Set<Vault>();
+  onGraphRefresh(async (result) => {
+    const snapshotPath = getSnapshotPath();
+    if (!snapshotPath) return;
+    const vault = currentVault();
+    const changed = result.added.length + result.changed.length + result.removed.length > 0;
+    if (saved.has(vault) && !changed) return;
+    await saveSnapshot(snapshotPath);
+    saved.add(vault);
+  });
+
+  for (const vault of vaults) {
+    await inVault(vault, () => startVault(vault));
+  }
+  watchConfig(applyConfig);
+
+  // Serve a single client over stdio, or any number over HTTP sharing this graph
+  if (httpOptions) {
+    await startHttpServer(createMcpServer, httpOptions);
+  } else {
+    await createMcpServer().connect(new StdioServerTransport());
+    console.error("[graph-memory] MCP server running on stdio.");
+  }
 }
 
 main().catch((err) => {
@@ -0,0 +1,287 @@
+/**
+ * Writing notes, so agents can record what they learn: create a note, append
+ * under a heading, add a wikilink, set tags and properties.
+ *
+ * Guardrails: a new note never replaces an existing file, and existing
+ * property values are only replaced when asked to. Notes outside the folders
+ * in GRAPH_WRITE_FOLDERS (default "Agent Memory") are off limits, and every
+ * operation can be previewed with `dryRun`.
+ *
+ * Existing notes are never rewritten whole: text is appended to the end of
+ * the note or of a heading's section, and properties are set one key at a
+ * time, so edits made in Obsidian meanwhile are kept. The note is read back
+ * afterwards and patched into the graph straight away.
+ */
+
+import { isMap, parseDocument, stringify } from "yaml";
+import { getGraph, getResolver, nameFromPath, updateNotes } from "./graph.js";
+import { frontmatterOf, quoteWikilinks } from "./parser.js";
+import { getVaultSource, type NoteEdit } from "./vault-source.js";
+
+export interface WriteResult {
+  path: string;
+  created: boolean;
+  dryRun: boolean;
+  unchanged: boolean;  // nothing to write, e.g. the link was already there
+  preview: string;     // what was (or would be) added: text, or the properties set
+  location: string;    // where it went, e.g. `under "## Log"`
+}
+
+const DEFAULT_WRITE_FOLDERS = ["Agent Memory"];
+
+/** Folders writes are allowed in, from GRAPH_WRITE_FOLDERS; "/" allows the whole vault. */
+export function getWriteFolders(): string[] {
+  const value = process.env.GRAPH_WRITE_FOLDERS;
+  if (value === undefined) return DEFAULT_WRITE_FOLDERS;
+  return value.split(",").map((f) => f.trim()).filter(Boolean).map((f) => (f === "/" ? "" : f.replace(/^\/+|\/+$/g, "")));
+}
+
+/** "Agent Memory\\Foo" → "Agent Memory/Foo.md". Rejects paths that leave the vault. */
+export function normalizeNotePath(path: string): string {
+  const normalized = path.trim().replace(/\\/g, "/").replace(/^\/+/, "");
+  const segments = normalized.split("/");
+  if (normalized === "" || segments.some((s) => s === "" || s === "." || s === "..")) {
+    throw new Error(`Invalid note path "${path}"`);
+  }
+  return normalized.toLowerCase().endsWith(".md") ? normalized : `${normalized}.md`;
+}
+
+function assertWritable(path: string): void {
+  const folders = getWriteFolders();
+  const allowed = folders.some((f) => f === "" || path.toLowerCase().startsWith(`${f.toLowerCase()}/`));
+  if (!allowed) {
+    const list = folders.length > 0 ? folders.map((f) => `${f}/`).join(", ") : "none";
+    throw new Error(`"${path}" is outside the folders agents may write to (${list}). Set GRAPH_WRITE_FOLDERS to change them.`);
+  }
+}
+
+function getWriter() {
+  const source = getVaultSource();
+  if (!source.noteExists || !source.writeNote || !source.editNote) {
+    throw new Error(`The ${source.description} vault source is read-only — writing needs the Obsidian Local REST API.`);
+  }
+  return { ...source, noteExists: source.noteExists, writeNote: source.writeNote, editNote: source.editNote };
+}
+
+/** Create the note (unless dry-running) and patch it into the graph. */
+async function create(result: WriteResult, content: string): Promise<WriteResult> {
+  if (!result.dryRun) {
+    await getWriter().writeNote(result.path, content);
+    await updateNotes([{ path: result.path, content }]);
+  }
+  return result;
+}
+
+/** Apply the edits to the note (unless dry-running), then read it back into the graph. */
+async function edit(result: WriteResult, edits: NoteEdit[]): Promise<WriteResult> {
+  if (!result.dryRun && !result.unchanged) {
+    const writer = getWriter();
+    for (const e of edits) await writer.editNote(result.path, e);
+    await updateNotes([{ path: result.path, content: await writer.readNote(result.path) }]);
+  }
+  return result;
+}
+
+/** Current text of an existing note, read from the vault rather than the graph so recent edits are seen. */
+async function readForUpdate(path: string): Promise<string> {
+  assertWritable(path);
+  return getWriter().readNote(path);
+}
+
+// --- Content edits ---
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s/;
+
+/** A blank line to put between `previous` and a block starting with `first`, unless list items follow each other. */
+function gap(previous: string | undefined, first: string): string {
+  const tight = previous === undefined || previous.trim() === "" || HEADING.test(previous) ||
+    (LIST_ITEM.test(previous) && LIST_ITEM.test(first));
+  return tight ? "" : "\n";
+}
+
+/** Headings outside code fences, by line. */
+function headingsOf(lines: string[]): { line: number; level: number; title: string }[] {
+  const headings: { line: number; level: number; title: string }[] = [];
+  let fence = false;
+  for (let i = 0; i < lines.length; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) fence = !fence;
+    const match = fence ? null : lines[i].match(HEADING);
+    if (match) headings.push({ line: i, level: match[1].length, title: match[2] });
+  }
+  return headings;
+}
+
+/**
+ * How to add text to the end of `heading`'s section (matched case-insensitively,
+ * with or without its #s), or to the end of the note. A missing heading is
+ * added at the end. `content` is only used to place the text; the edit itself
+ * doesn't depend on the rest of the note staying as it is.
+ */
+function planAppend(content: string, text: string, heading?: string): { edit: NoteEdit; location: string } {
+  const block = text.replace(/\n+$/, "") + "\n";
+  const lines = content.replace(/\n+$/, "").split("\n");
+  const last = lines[lines.length - 1];
+  const newline = content === "" || content.endsWith("\n") ? "" : "\n";
+
+  if (!heading) {
+    return { edit: { type: "append", text: newline + gap(last, block) + block }, location: "at the end" };
+  }
+
+  const wanted = heading.match(HEADING);
+  const title = (wanted ? wanted[2] : heading).trim().toLowerCase();
+  const headings = headingsOf(lines);
+  const index = headings.findIndex((h) => h.title.toLowerCase() === title);
+
+  if (index !== -1) {
+    const found = headings[index];
+    // The section runs to the next heading of the same or a higher level
+    const next = headings.slice(index + 1).find((h) => h.level <= found.level);
+    let at = next ? next.line : lines.length;
+    while (at > found.line + 1 && lines[at - 1].trim() === "") at--;
+    const parents: typeof headings = [];
+    for (const h of headings.slice(0, index)) {
+      while (parents.length > 0 && parents[parents.length - 1].level >= h.level) parents.pop();
+      parents.push(h);
+    }
+    const target = [...parents.filter((p) => p.level < found.level).map((p) => p.title), found.title];
+    return {
+      edit: { type: "heading", heading: target, text: gap(lines[at - 1], block) + block },
+      location: `under "${lines[found.line]}"`,
+    };
+  }
+
+  const line = wanted ? heading.trim() : `## ${heading.trim()}`;
+  return {
+    edit: { type: "append", text: `${newline}${gap(last, line)}${line}\n\n${block}` },
+    location: `under new heading "${line}"`,
+  };
+}
+
+/** The note's frontmatter properties. */
+function frontmatterValues(content: string): Record<string, unknown> {
+  const fm = frontmatterOf(content);
+  if (!fm) return {};
+  const doc = parseDocument(quoteWikilinks(fm[1]), { uniqueKeys: false });
+  if (doc.errors.length > 0 || !(doc.contents === null || isMap(doc.contents))) {
+    throw new Error("The note's frontmatter is not a valid YAML mapping — fix it by hand first.");
+  }
+  return (doc.toJS() as Record<string, unknown> | null) ?? {};
+}
+
+/** Existing key matching `key` case-insensitively, so "Tags" isn't duplicated as "tags". */
+function findKey(values: Record<string, unknown>, key: string): string {
+  return Object.keys(values).find((k) => k.toLowerCase() === key.toLowerCase()) ?? key;
+}
+
+/** A list property with `values` added, skipping ones already there; null when nothing is new. */
+function addToList(current: unknown, values: string[]): string[] | null {
+  const list = (Array.isArray(current) ? current : current === undefined || current === null || current === "" ? [] : [current])
+    .map((v) => String(v));
+  const added = values.filter((v) => !list.some((existing) => existing.toLowerCase() === v.toLowerCase()));
+  return added.length > 0 ? [...list, ...added] : null;
+}
+
+/** Wikilink text for a note: its name when that resolves to it, else its path. */
+function linkText(path: string): string {
+  const name = nameFromPath(path);
+  const lookup = getResolver().lookup(name);
+  return lookup.status === "found" && lookup.path === path ? `[[${name}]]` : `[[${path.replace(/\.md$/i, "")}]]`;
+}
+
+// --- Operations ---
+
+/** Create a note, optionally with tags and properties. Fails if a file already exists at the path. */
+export async function createNote(
+  rawPath: string,
+  options: { content: string; tags?: string[]; properties?: Record<string, unknown>; dryRun?: boolean }
+): Promise<WriteResult> {
+  const path = normalizeNotePath(rawPath);
+  assertWritable(path);
+  const writer = getWriter();
+  if (getGraph().noteStates.has(path) || (await writer.noteExists(path))) {
+    throw new Error(`"${path}" already exists — append to it instead of creating it.`);
+  }
+
+  const properties: Record<string, unknown> = { ...options.properties };
+  if (options.tags?.length) properties.tags = options.tags.map((t) => t.replace(/^#/, ""));
+  const frontmatter = Object.keys(properties).length > 0 ? `---\n${stringify(properties, { lineWidth: 0 })}---\n\n` : "";
+  const content = frontmatter + options.content.replace(/\n*$/, "\n");
+
+  const result = { path, created: true, dryRun: !!options.dryRun, unchanged: false, preview: content, location: "new note" };
+  return create(result, content);
+}
+
+/** Append text to a note, under a heading or at the end. */
+export async function appendToNote(path: string, text: string, options: { heading?: string; dryRun?: boolean } = {}): Promise<WriteResult> {
+  if (text.trim() === "") throw new Error("Nothing to append — text is empty.");
+  const before = await readForUpdate(path);
+  const { edit: append, location } = planAppend(before, text, options.heading);
+  return edit({ path, created: false, dryRun: !!options.dryRun, unchanged: false, preview: text, location }, [append]);
+}
+
+/**
+ * Link one note to another: as a list item under a heading (or at the end),
+ * or as a value of a frontmatter list property such as `related`.
+ */
+export async function addLink(
+  from: string,
+  to: string,
+  options: { heading?: string; property?: string; note?: string; dryRun?: boolean } = {}
+): Promise<WriteResult> {
+  const before = await readForUpdate(from);
+  const link = linkText(to);
+  const dryRun = !!options.dryRun;
+
+  if (options.property) {
+    const values = frontmatterValues(before);
+    const key = findKey(values, options.property);
+    const list = addToList(values[key], [link]);
+    const result = { path: from, created: false, dryRun, unchanged: !list, preview: link, location: `in property "${key}"` };
+    return edit(result, list ? [{ type: "property", key, value: list }] : []);
+  }
+
+  const alreadyLinked = getGraph().edges.get(from)?.get(to)?.some((l) => !l.property);
+  const line = `- ${link}${options.note ? ` — ${options.note}` : ""}`;
+  if (alreadyLinked) {
+    return { path: from, created: false, dryRun, unchanged: true, preview: line, location: "already linked in the text" };
+  }
+  const { edit: append, location } = planAppend(before, line, options.heading);
+  return edit({ path: from, created: false, dryRun, unchanged: false, preview: line, location }, [append]);
+}
+
+/**
+ * Add tags and set frontmatter properties. Tags are merged with the note's
+ * own; a property that already has a different value is only replaced with
+ * `overwrite`.
+ */
+export async function setProperties(
+  path: string,
+  options: { tags?: string[]; properties?: Record<string, unknown>; overwrite?: boolean; dryRun?: boolean }
+): Promise<WriteResult> {
+  const current = frontmatterValues(await readForUpdate(path));
+  const changes: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+  for (const [key, value] of Object.entries(options.properties ?? {})) {
+    const actual = findKey(current, key);
+    if (JSON.stringify(current[actual]) === JSON.stringify(value)) continue;
+    if (current[actual] !== undefined && current[actual] !== null && !options.overwrite) {
+      conflicts.push(`${actual} (currently ${JSON.stringify(current[actual])})`);
+      continue;
+    }
+    changes[actual] = value;
+  }
+  if (conflicts.length > 0) {
+    throw new Error(`Already set: ${conflicts.join(", ")}. Pass overwrite to replace existing values.`);
+  }
+  if (options.tags?.length) {
+    const key = findKey(current, "tags");
+    const tags = addToList(current[key], options.tags.map((t) => t.replace(/^#/, "")));
+    if (tags) changes[key] = tags;
+  }
+
+  const edits = Object.entries(changes).map(([key, value]): NoteEdit => ({ type: "property", key, value }));
+  const preview = edits.length > 0 ? stringify(changes, { lineWidth: 0 }) : "";
+  const result = { path, created: false, dryRun: !!options.dryRun, unchanged: edits.length === 0, preview, location: "frontmatter" };
+  return edit(result, edits);
+}
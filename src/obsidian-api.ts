@@ -1,71 +1,290 @@
 /**
  * Obsidian Local REST API client.
- * Lists vault files recursively and reads note content.
+ * Lists vault files recursively, reads note content and writes notes.
+ *
+ * Every request has a timeout. Reads and whole-note writes are retried with
+ * exponential backoff on network errors, 429 and 5xx responses; appends are
+ * not, since a request that timed out may still have been applied. At most `concurrency` requests are
+ * open at once. HTTPS certificates are verified unless the vault trusts the
+ * plugin's self-signed certificate (`caCert`) or opts out (`insecureTls`).
  */
 
-const OBSIDIAN_HOST = process.env.OBSIDIAN_HOST || "http://localhost:27123";
-const OBSIDIAN_API_KEY = process.env.OBSIDIAN_API_KEY || "";
-
-const headers = {
-  Authorization: `Bearer ${OBSIDIAN_API_KEY}`,
-  Accept: "application/json",
-};
+import { readFileSync } from "node:fs";
+import { Agent as HttpAgent, request as httpRequest, type IncomingHttpHeaders, type OutgoingHttpHeaders } from "node:http";
+import { Agent as HttpsAgent, request as httpsRequest } from "node:https";
+import type { ConnectionCheck, NoteEdit, NoteListing, NoteMeta, ReadFailure, VaultSource } from "./vault-source.js";
+import type { VaultConfig } from "./vaults.js";
 
 export interface VaultFile {
   path: string;
   isDirectory: boolean;
 }
 
-/**
- * List files in a vault directory. Directories end with '/'.
- */
-async function listDir(dirPath: string): Promise<VaultFile[]> {
-  const url = `${OBSIDIAN_HOST}/vault/${encodeURIComponent(dirPath).replace(/%2F/g, "/")}`;
-  const urlWithSlash = url.endsWith("/") ? url : url + "/";
-  const res = await fetch(urlWithSlash, { headers });
-  if (!res.ok) {
-    throw new Error(`Failed to list ${dirPath}: ${res.status} ${res.statusText}`);
+type RestConfig = Pick<VaultConfig, "host" | "apiKey" | "timeout" | "retries" | "concurrency" | "caCert" | "insecureTls">;
+
+interface RequestOptions {
+  accept: string;
+  body?: string;
+  contentType?: string;
+  headers?: OutgoingHttpHeaders;
+}
+
+interface RestResponse {
+  status: number;
+  statusText: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+const MAX_BACKOFF = 10 * 1000;
+
+/** Certificate errors: retrying won't help, trusting the certificate will. */
+const CERT_ERRORS = new Set([
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+  "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+  "CERT_HAS_EXPIRED",
+  "ERR_TLS_CERT_ALTNAME_INVALID",
+]);
+
+/** A network error as a readable reason, with a hint where there is an obvious fix. */
+function describeError(err: unknown): string {
+  const error = err as NodeJS.ErrnoException;
+  if (error.code && CERT_ERRORS.has(error.code)) {
+    return `${error.message} — set OBSIDIAN_CA_CERT to the plugin's certificate, or OBSIDIAN_TLS_INSECURE=true`;
   }
-  const data = (await res.json()) as { files: string[] };
-  const prefix = dirPath ? (dirPath.endsWith("/") ? dirPath : dirPath + "/") : "";
-  return data.files.map((f) => ({
-    path: f.endsWith("/") ? prefix + f.slice(0, -1) : prefix + f,
-    isDirectory: f.endsWith("/"),
-  }));
+  if (error.code === "ECONNREFUSED") {
+    return `${error.message} — is Obsidian running with the Local REST API plugin enabled?`;
+  }
+  return error.message || String(err);
 }
 
-/**
- * Recursively list all markdown files in the vault.
- */
-export async function listAllNotes(): Promise<string[]> {
-  const notes: string[] = [];
-  const queue: string[] = [""];
-
-  while (queue.length > 0) {
-    const dir = queue.shift()!;
-    const entries = await listDir(dir);
-    for (const entry of entries) {
-      if (entry.isDirectory) {
-        queue.push(entry.path);
-      } else if (entry.path.endsWith(".md")) {
-        notes.push(entry.path);
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Delay before retry `attempt` (0-based): 500ms, 1s, 2s… with jitter, or what Retry-After asks for. */
+function backoff(attempt: number, retryAfter?: string): number {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds)) return Math.min(seconds * 1000, MAX_BACKOFF);
+  return Math.min(500 * 2 ** attempt, MAX_BACKOFF) * (0.75 + Math.random() * 0.5);
+}
+
+/** A client for one Obsidian instance, e.g. { host: "https://localhost:27124", apiKey, ... }. */
+export function createRestVaultSource(config: RestConfig): VaultSource {
+  const { host, apiKey } = config;
+  const secure = host.startsWith("https:");
+  const agent = secure
+    ? new HttpsAgent({
+        keepAlive: true,
+        maxSockets: config.concurrency,
+        ca: config.caCert ? readFileSync(config.caCert) : undefined,
+        rejectUnauthorized: !config.insecureTls,
+      })
+    : new HttpAgent({ keepAlive: true, maxSockets: config.concurrency });
+
+  function noteUrl(path: string): string {
+    return `${host}/vault/${encodeURIComponent(path).replace(/%2F/g, "/")}`;
+  }
+
+  /** One request, failing after `config.timeout`. */
+  function attempt(method: string, url: string, headers: OutgoingHttpHeaders, body?: string): Promise<RestResponse> {
+    return new Promise((resolve, reject) => {
+      const req = (secure ? httpsRequest : httpRequest)(url, { method, headers, agent }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => {
+          clearTimeout(timer);
+          resolve({
+            status: res.statusCode || 0,
+            statusText: res.statusMessage || "",
+            headers: res.headers,
+            body: Buffer.concat(chunks).toString("utf8"),
+          });
+        });
+        res.on("error", reject);
+      });
+      const timer = setTimeout(() => req.destroy(new Error(`timed out after ${config.timeout}ms`)), config.timeout);
+      req.on("error", (err) => {
+        clearTimeout(timer);
+        reject(err);
+      });
+      req.end(body);
+    });
+  }
+
+  /**
+   * A request with retries. Resolves with the last response, even an error
+   * status; rejects when the server could not be reached at all.
+   */
+  async function send(method: string, url: string, options: RequestOptions): Promise<RestResponse> {
+    const headers: OutgoingHttpHeaders = { ...options.headers, Authorization: `Bearer ${apiKey}`, Accept: options.accept };
+    if (options.body !== undefined) {
+      headers["Content-Type"] = options.contentType;
+      headers["Content-Length"] = Buffer.byteLength(options.body);
+    }
+    const retries = method === "POST" || method === "PATCH" ? 0 : config.retries;
+
+    for (let i = 0; ; i++) {
+      let retryAfter: string | undefined;
+      try {
+        const res = await attempt(method, url, headers, options.body);
+        if (res.status !== 429 && res.status < 500) return res;
+        if (i >= retries) return res;
+        retryAfter = res.headers["retry-after"];
+      } catch (err) {
+        const code = (err as NodeJS.ErrnoException).code;
+        if (i >= retries || (code && CERT_ERRORS.has(code))) throw new Error(describeError(err));
       }
+      await sleep(backoff(i, retryAfter));
     }
   }
 
-  return notes;
-}
+  /** "Failed to read X: 404 Not Found" or "Failed to read X: timed out after 10000ms". */
+  async function call(action: string, method: string, url: string, options: RequestOptions): Promise<RestResponse> {
+    let res: RestResponse;
+    try {
+      res = await send(method, url, options);
+    } catch (err) {
+      throw new Error(`Failed to ${action}: ${(err as Error).message}`);
+    }
+    if (res.status === 401 || res.status === 403) {
+      throw new Error(`Failed to ${action}: ${res.status} ${res.statusText} — check OBSIDIAN_API_KEY`);
+    }
+    return res;
+  }
 
-/**
- * Read a note's content by vault-relative path.
- */
-export async function readNote(path: string): Promise<string> {
-  const url = `${OBSIDIAN_HOST}/vault/${encodeURIComponent(path).replace(/%2F/g, "/")}`;
-  const res = await fetch(url, {
-    headers: { ...headers, Accept: "text/markdown" },
-  });
-  if (!res.ok) {
-    throw new Error(`Failed to read ${path}: ${res.status} ${res.statusText}`);
+  function check(action: string, res: RestResponse): void {
+    if (res.status < 200 || res.status >= 300) {
+      throw new Error(`Failed to ${action}: ${res.status} ${res.statusText}`);
+    }
+  }
+
+  /**
+   * List files in a vault directory. Directories end with '/'.
+   * A directory that no longer exists is empty.
+   */
+  async function listDir(dirPath: string): Promise<VaultFile[]> {
+    const url = noteUrl(dirPath);
+    const urlWithSlash = url.endsWith("/") ? url : url + "/";
+    const res = await call(`list ${dirPath || "/"}`, "GET", urlWithSlash, { accept: "application/json" });
+    if (res.status === 404 && dirPath) return [];
+    check(`list ${dirPath || "/"}`, res);
+    const data = JSON.parse(res.body) as { files: string[] };
+    const prefix = dirPath ? (dirPath.endsWith("/") ? dirPath : dirPath + "/") : "";
+    return data.files.map((f) => ({
+      path: f.endsWith("/") ? prefix + f.slice(0, -1) : prefix + f,
+      isDirectory: f.endsWith("/"),
+    }));
+  }
+
+  /**
+   * Recursively list all markdown files in the vault.
+   * The listing endpoint carries no stat info, so refreshes fall back to content hashes.
+   * Only a failure to list the vault root fails the listing; subfolders that
+   * can't be listed are reported.
+   */
+  async function listAllNotes(): Promise<NoteListing> {
+    const notes: NoteMeta[] = [];
+    const failed: ReadFailure[] = [];
+    const queue: string[] = [""];
+
+    while (queue.length > 0) {
+      const dir = queue.shift()!;
+      let entries: VaultFile[];
+      try {
+        entries = await listDir(dir);
+      } catch (err) {
+        if (!dir) throw err;
+        failed.push({ path: `${dir}/`, reason: (err as Error).message });
+        continue;
+      }
+      for (const entry of entries) {
+        if (entry.isDirectory) {
+          queue.push(entry.path);
+        } else if (entry.path.endsWith(".md")) {
+          notes.push({ path: entry.path });
+        }
+      }
+    }
+
+    return { notes, failed };
+  }
+
+  /**
+   * Read a note's content by vault-relative path.
+   */
+  async function readNote(path: string): Promise<string> {
+    const res = await call(`read ${path}`, "GET", noteUrl(path), { accept: "text/markdown" });
+    check(`read ${path}`, res);
+    return res.body;
+  }
+
+  /**
+   * Whether a file exists at a vault-relative path.
+   */
+  async function noteExists(path: string): Promise<boolean> {
+    const res = await call(`check ${path}`, "GET", noteUrl(path), { accept: "text/markdown" });
+    if (res.status === 404) return false;
+    check(`check ${path}`, res);
+    return true;
+  }
+
+  /**
+   * Create or replace a note. The API creates missing folders.
+   */
+  async function writeNote(path: string, content: string): Promise<void> {
+    const res = await call(`write ${path}`, "PUT", noteUrl(path), { accept: "application/json", body: content, contentType: "text/markdown" });
+    check(`write ${path}`, res);
   }
-  return res.text();
+
+  /**
+   * Edit a note in place: POST appends to the end, PATCH appends to a
+   * heading's section or replaces one frontmatter key (Local REST API 3.0+).
+   */
+  async function editNote(path: string, edit: NoteEdit): Promise<void> {
+    const action = `edit ${path}`;
+    const res = edit.type === "append"
+      ? await call(action, "POST", noteUrl(path), { accept: "application/json", body: edit.text, contentType: "text/markdown" })
+      : await call(action, "PATCH", noteUrl(path), {
+          accept: "application/json",
+          body: edit.type === "heading" ? edit.text : JSON.stringify(edit.value),
+          contentType: edit.type === "heading" ? "text/markdown" : "application/json",
+          headers: {
+            Operation: edit.type === "heading" ? "append" : "replace",
+            "Target-Type": edit.type === "heading" ? "heading" : "frontmatter",
+            Target: encodeURIComponent(edit.type === "heading" ? edit.heading.join("::") : edit.key),
+            "Create-Target-If-Missing": "true",
+          },
+        });
+    check(action, res);
+  }
+
+  /**
+   * Ask the API's status endpoint whether it is up and accepts the key.
+   */
+  async function checkConnection(): Promise<ConnectionCheck> {
+    const start = Date.now();
+    try {
+      const res = await send("GET", `${host}/`, { accept: "application/json" });
+      const latencyMs = Date.now() - start;
+      if (res.status !== 200) return { ok: false, detail: `${res.status} ${res.statusText}`, latencyMs };
+      const status = JSON.parse(res.body) as { authenticated?: boolean; service?: string; versions?: { self?: string } };
+      const detail = [status.service || "Local REST API", status.versions?.self].filter(Boolean).join(" ");
+      return { ok: true, authenticated: status.authenticated === true, detail, latencyMs };
+    } catch (err) {
+      return { ok: false, detail: (err as Error).message, latencyMs: Date.now() - start };
+    }
+  }
+
+  return {
+    description: `rest (${host})`,
+    listAllNotes,
+    readNote,
+    noteExists,
+    writeNote,
+    editNote,
+    checkConnection,
+  };
 }
@@ -0,0 +1,247 @@
+/**
+ * Markdown parsing: links (wikilinks, embeds, markdown links), frontmatter
+ * properties, tags, aliases and the plain prose left once those are stripped.
+ */
+
+import { parse as parseYaml } from "yaml";
+
+export const LINK_TYPES = ["wikilink", "embed", "markdown"] as const;
+export type LinkType = (typeof LINK_TYPES)[number];
+
+/** One link occurrence in a note. */
+export interface ParsedLink {
+  target: string;    // link text as written, e.g. "Projects/Alpha/README"
+  type: LinkType;
+  anchor?: string;   // "#Heading" or "^block-id"
+  line: number;      // 1-based line the link is on
+  heading?: string;  // nearest heading above the link
+  context: string;   // the paragraph around the link (or just its line, if the paragraph is long)
+  property?: string; // frontmatter property the link is the value of, e.g. "up"
+}
+
+/** Longest context snippet kept per link. */
+const MAX_CONTEXT = 300;
+
+/** File types Obsidian treats as attachments rather than notes; links to them are not graph edges. */
+const ATTACHMENT_EXTENSIONS = new Set([
+  "png", "jpg", "jpeg", "gif", "bmp", "svg", "webp", "avif",
+  "mp3", "wav", "m4a", "ogg", "3gp", "flac", "webm",
+  "mp4", "ogv", "mov", "mkv",
+  "pdf", "canvas", "excalidraw", "base",
+]);
+
+function isAttachment(target: string): boolean {
+  const ext = target.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase();
+  return ext !== undefined && ATTACHMENT_EXTENSIONS.has(ext);
+}
+
+/** Split "Note#Heading" / "Note#^block" into target and anchor. */
+function splitAnchor(raw: string): { target: string; anchor?: string } {
+  const hash = raw.indexOf("#");
+  if (hash === -1) return { target: raw.trim() };
+  const anchor = raw.slice(hash + 1).trim();
+  return {
+    target: raw.slice(0, hash).trim(),
+    anchor: anchor ? (anchor.startsWith("^") ? anchor : `#${anchor}`) : undefined,
+  };
+}
+
+/**
+ * Maps character offsets to line number, enclosing heading and surrounding
+ * paragraph. Headings inside fenced code blocks are ignored.
+ */
+function createLocator(content: string): (offset: number) => Pick<ParsedLink, "line" | "heading" | "context"> {
+  const lines = content.split("\n");
+  const lineStarts: number[] = [];
+  const headings: (string | undefined)[] = [];
+  const isBreak: boolean[] = []; // blank, heading or fence lines end a paragraph
+
+  let offset = 0;
+  let heading: string | undefined;
+  let inFence = false;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+    const fence = /^\s*(```|~~~)/.test(line);
+    if (fence) inFence = !inFence;
+    const headingMatch = !inFence && !fence ? line.match(/^#{1,6}\s+(.+?)\s*#*\s*$/) : null;
+    if (headingMatch) heading = headingMatch[1];
+    headings.push(heading);
+    isBreak.push(fence || !!headingMatch || line.trim() === "");
+  }
+
+  const contexts = new Map<number, string>();
+  function contextAt(index: number): string {
+    if (!contexts.has(index)) {
+      let start = index;
+      let end = index;
+      while (start > 0 && !isBreak[start - 1]) start--;
+      while (end < lines.length - 1 && !isBreak[end + 1]) end++;
+      let text = lines.slice(start, end + 1).map((l) => l.trim()).join(" ");
+      if (text.length > MAX_CONTEXT) text = lines[index].trim();
+      if (text.length > MAX_CONTEXT) text = text.slice(0, MAX_CONTEXT - 1) + "…";
+      contexts.set(index, text);
+    }
+    return contexts.get(index)!;
+  }
+
+  return (at: number) => {
+    // Binary search for the last line starting at or before `at`
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= at) lo = mid;
+      else hi = mid - 1;
+    }
+    return { line: lo + 1, heading: headings[lo], context: contextAt(lo) };
+  };
+}
+
+/**
+ * Parse every note link from markdown content: `[[wikilinks]]`, `![[embeds]]`
+ * and `[text](Other%20Note.md)` markdown links, with their heading/block anchors.
+ * Each link records where it sits: line, heading and surrounding paragraph.
+ * External URLs, same-note anchors and attachments are skipped.
+ */
+export function parseLinks(content: string): ParsedLink[] {
+  const links: ParsedLink[] = [];
+  const locate = createLocator(content);
+  let match: RegExpExecArray | null;
+
+  // [[target]], [[target|alias]], [[target#Heading]], [[target#^block]], ![[embed]]
+  const wikiRegex = /(!?)\[\[([^\[\]|]+)(?:\|[^\]]*)?\]\]/g;
+  while ((match = wikiRegex.exec(content)) !== null) {
+    const { target, anchor } = splitAnchor(match[2]);
+    if (!target || isAttachment(target)) continue;
+    links.push({ target, type: match[1] ? "embed" : "wikilink", anchor, ...locate(match.index) });
+  }
+
+  // [text](target), [text](<target with spaces>), ![alt](target)
+  const markdownRegex = /(!?)\[[^\]]*\]\((?:<([^>]+)>|([^)\s]+))(?:\s+"[^"]*")?\)/g;
+  while ((match = markdownRegex.exec(content)) !== null) {
+    const raw = match[2] ?? match[3];
+    if (/^[a-z][a-z0-9+.-]*:/i.test(raw)) continue; // http:, mailto:, obsidian: ...
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(raw);
+    } catch {
+      decoded = raw;
+    }
+    const { target, anchor } = splitAnchor(decoded);
+    if (!target || isAttachment(target)) continue;
+    links.push({ target, type: match[1] ? "embed" : "markdown", anchor, ...locate(match.index) });
+  }
+
+  // Links in frontmatter belong to the property they are a value of
+  const fm = frontmatterOf(content);
+  if (fm) {
+    const lines = fm[0].split("\n");
+    const keys: (string | undefined)[] = [];
+    let key: string | undefined;
+    for (const line of lines) {
+      key = line.match(/^([^\s#:-][^:]*):/)?.[1].trim() ?? key;
+      keys.push(key);
+    }
+    for (const link of links) {
+      if (link.line > lines.length || !keys[link.line - 1]) continue;
+      const text = lines[link.line - 1].trim();
+      link.property = keys[link.line - 1];
+      link.heading = undefined;
+      link.context = text.startsWith(`${link.property}:`) ? text : `${link.property}: ${text}`;
+    }
+  }
+
+  return links.sort((a, b) => a.line - b.line);
+}
+
+/** Frontmatter block of a note, or null if it has none. */
+export function frontmatterOf(content: string): RegExpMatchArray | null {
+  return content.match(/^---\n([\s\S]*?)\n---/);
+}
+
+/**
+ * Quote bare wikilinks so they survive YAML parsing: `up: [[Parent]]` would
+ * otherwise parse as a nested list, and `related: [[A]], [[B]]` not at all.
+ */
+export function quoteWikilinks(fm: string): string {
+  return fm.replace(
+    /^([^\s#:-][^:\n]*:[ \t]+|[ \t]*-[ \t]+)((?:\[\[[^\[\]\n]+\]\][ \t]*,?[ \t]*)+)$/gm,
+    (_, prefix: string, value: string) => {
+      const links = value.match(/\[\[[^\[\]]+\]\]/g)!.map((l) => JSON.stringify(l));
+      return prefix + (links.length > 1 ? `[${links.join(", ")}]` : links[0]);
+    }
+  );
+}
+
+/**
+ * Parse frontmatter as YAML into a property map. Notes without frontmatter,
+ * or whose frontmatter is not a valid YAML mapping, have no properties.
+ */
+export function parseProperties(content: string): Record<string, unknown> {
+  const fmMatch = frontmatterOf(content);
+  if (!fmMatch) return {};
+  try {
+    const parsed: unknown = parseYaml(quoteWikilinks(fmMatch[1]), { uniqueKeys: false });
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** A list-valued property as strings: `[a, b]`, a block list, or a single value. */
+function propertyList(properties: Record<string, unknown>, key: string): string[] {
+  const value = properties[key];
+  const values = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  return values.map((v) => String(v).trim()).filter(Boolean);
+}
+
+/** Parse tags from markdown content (both inline #tag and frontmatter tags). */
+export function parseTags(content: string, properties = parseProperties(content)): string[] {
+  const tags = new Set<string>();
+
+  // Frontmatter tags: tags: [tag1, tag2], tags:\n  - tag1\n  - tag2, or tags: tag1, tag2
+  for (const value of propertyList(properties, "tags")) {
+    for (const tag of value.split(/[,\s]+/)) {
+      const cleaned = tag.replace(/^#/, "");
+      if (cleaned) tags.add(cleaned);
+    }
+  }
+
+  // Inline tags: #tag (not inside code blocks or links)
+  const fmMatch = frontmatterOf(content);
+  const bodyContent = fmMatch ? content.slice(fmMatch[0].length) : content;
+  const inlineTagRegex = /(?:^|\s)#([a-zA-Z][a-zA-Z0-9_/-]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = inlineTagRegex.exec(bodyContent)) !== null) {
+    tags.add(match[1]);
+  }
+
+  return [...tags];
+}
+
+/** Parse frontmatter `aliases:` (or the older singular `alias:`). */
+export function parseAliases(content: string, properties = parseProperties(content)): string[] {
+  const aliases = [...propertyList(properties, "aliases"), ...propertyList(properties, "alias")];
+  return [...new Set(aliases)];
+}
+
+/** Replace a match with spaces, keeping newlines so offsets and line numbers still line up. */
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+/**
+ * The note's running prose: frontmatter, code, links, tags and URLs blanked
+ * out. Same length as `content`, so offsets and line numbers are unchanged.
+ */
+export function proseText(content: string): string {
+  let text = content.replace(/^---\n[\s\S]*?\n---/, blank);
+  text = text.replace(/^[ \t]*(```|~~~)[^\n]*\n[\s\S]*?(?:^[ \t]*\1[^\n]*$|(?![\s\S]))/gm, blank);
+  text = text.replace(/`[^`\n]*`/g, blank);
+  text = text.replace(/!?\[\[[^\]]*\]\]/g, blank);
+  text = text.replace(/!?\[[^\]]*\]\([^)]*\)/g, blank);
+  text = text.replace(/\b[a-z][a-z0-9+.-]*:\/\/\S+/gi, blank);
+  text = text.replace(/(^|\s)#[a-zA-Z][a-zA-Z0-9_/-]*/g, blank);
+  return text;
+}
@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { compilePropertyExpression } from "./property-filter.js";
+
+function matches(expression: string, properties: Record<string, unknown>): boolean {
+  return compilePropertyExpression(expression).test(properties);
+}
+
+test("compares values case-insensitively, numbers numerically and dates as text", () => {
+  assert.ok(matches("status = active", { Status: "Active" }));
+  assert.ok(matches("priority > 9", { priority: 10 }));
+  assert.ok(!matches("priority > 9", { priority: "1" }));
+  assert.ok(matches("due < 2025-01-01", { due: "2024-12-31" }));
+  assert.ok(matches('title contains "graph mem"', { title: "Obsidian Graph Memory" }));
+});
+
+test("matches any value of a list and links by their target", () => {
+  assert.ok(matches("tags = infra", { tags: ["project", ["infra"]] }));
+  assert.ok(matches('up = "Projects/Alpha"', { up: "[[Projects/Alpha|Alpha]]" }));
+});
+
+test("exists and != treat missing and empty values as absent", () => {
+  assert.ok(matches("owner exists", { owner: "me" }));
+  assert.ok(!matches("owner exists", { owner: "" }));
+  assert.ok(!matches("owner exists", { owner: [] }));
+  assert.ok(matches("status != done", {}));
+  assert.ok(!matches("status != done", { status: ["open", "done"] }));
+});
+
+test("AND binds tighter than OR, with NOT and parentheses", () => {
+  const props = { type: "area", status: "archived" };
+  assert.ok(matches("type = project AND status = active OR type = area", props));
+  assert.ok(!matches("type = project AND (status = active OR type = area)", props));
+  assert.ok(!matches("NOT type = area", props));
+  assert.ok(matches("NOT (type = project OR status = active)", props));
+});
+
+test("lists the keys it refers to", () => {
+  assert.deepEqual(compilePropertyExpression("a = 1 AND (b exists OR a < 3) AND NOT c contains x").keys, ["a", "b", "c"]);
+});
+
+test("reports syntax errors with their position", () => {
+  const cases: [string, RegExp][] = [
+    ["", /^Empty property expression$/],
+    ["status", /^Expected an operator .* after "status" at end of expression$/],
+    ["status = ", /^Expected a value after "status =" at end of expression$/],
+    ["status = (active", /^Expected a value after "status =" at position 10 \("\("\)$/],
+    ["(status = active", /^Expected "\)" at end of expression$/],
+    ["status = active extra", /^Unexpected input at position 17 \("extra"\)$/],
+    ["AND status = active", /^Expected a property name at position 1 \("AND"\)$/],
+    ["status == active", /^Expected a value after "status =" at position 9 \("="\)$/],
+    ['title = "unterminated', /^Unexpected character """ at position 9$/],
+  ];
+  for (const [expression, message] of cases) {
+    assert.throws(() => compilePropertyExpression(expression), { message }, expression);
+  }
+});
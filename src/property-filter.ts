@@ -0,0 +1,215 @@
+/**
+ * Frontmatter property expressions, e.g.
+ * `status = active AND (type = project OR type = area) AND NOT archived exists`.
+ *
+ * Grammar (keywords are case-insensitive, AND binds tighter than OR):
+ *   expr       := and ("OR" and)*
+ *   and        := unary ("AND" unary)*
+ *   unary      := "NOT" unary | "(" expr ")" | comparison
+ *   comparison := key ("=" | "!=" | ">" | ">=" | "<" | "<=" | "contains") value | key "exists"
+ * Keys and values are bare words or quoted strings.
+ *
+ * The tokenizer and condition parser are shared with the graph query
+ * language, whose WHERE clause uses the same syntax over note fields.
+ */
+
+import { getGraph } from "./graph.js";
+
+export type PropertyPredicate = (properties: Record<string, unknown>) => boolean;
+
+export interface PropertyExpression {
+  test: PropertyPredicate;
+  keys: string[];  // properties the expression refers to, in order of appearance
+}
+
+/** A condition over some item, given a way to look up the values of a key on it. */
+export interface Condition<T> {
+  test: (item: T) => boolean;
+  keys: string[];
+}
+
+const OPERATORS = ["=", "!=", ">", ">=", "<", "<=", "contains"] as const;
+type Operator = (typeof OPERATORS)[number];
+
+export interface Token {
+  kind: "word" | "string" | "op" | "(" | ")" | ",";
+  text: string;
+  at: number;  // offset in the expression, for error messages
+}
+
+export function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\()|(\))|(,)|(!=|>=|<=|=|>|<)|"((?:[^"\\]|\\.)*)"|'([^']*)'|([^\s(),"'=!<>]+))/y;
+  let at = 0;
+  while (at < expression.length) {
+    pattern.lastIndex = at;
+    const match = pattern.exec(expression);
+    if (!match) {
+      const offset = at + expression.slice(at).search(/\S/);
+      if (offset < at) break; // only trailing whitespace left
+      throw new Error(`Unexpected character "${expression[offset]}" at position ${offset + 1}`);
+    }
+    const start = at + match[0].search(/\S/);
+    if (match[1]) tokens.push({ kind: "(", text: "(", at: start });
+    else if (match[2]) tokens.push({ kind: ")", text: ")", at: start });
+    else if (match[3]) tokens.push({ kind: ",", text: ",", at: start });
+    else if (match[4]) tokens.push({ kind: "op", text: match[4], at: start });
+    else if (match[5] !== undefined) tokens.push({ kind: "string", text: match[5].replace(/\\(.)/g, "$1"), at: start });
+    else if (match[6] !== undefined) tokens.push({ kind: "string", text: match[6], at: start });
+    else tokens.push({ kind: "word", text: match[7], at: start });
+    at = pattern.lastIndex;
+  }
+  return tokens;
+}
+
+/** "[[Projects/Alpha|Alpha]]" → "projects/alpha"; other values lowercased. */
+function normalizeValue(value: unknown): string {
+  const text = String(value).trim();
+  const link = text.match(/^\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]$/);
+  return (link ? link[1] : text).trim().toLowerCase();
+}
+
+/** A property's values, looked up case-insensitively; lists are flattened and empty values dropped. */
+export function propertyValues(properties: Record<string, unknown>, key: string): unknown[] {
+  const lower = key.toLowerCase();
+  const found = Object.keys(properties).find((k) => k.toLowerCase() === lower);
+  if (found === undefined) return [];
+  const value = properties[found];
+  return (Array.isArray(value) ? value.flat(Infinity) : [value]).filter((v) => v !== null && v !== undefined && v !== "");
+}
+
+function compare(value: unknown, op: Operator, target: string): boolean {
+  const a = normalizeValue(value);
+  const b = target.trim().toLowerCase();
+  if (op === "contains") return a.includes(b);
+  if (op === "=") return a === b;
+
+  // Numbers compare numerically; anything else (including ISO dates) as text
+  const numeric = a !== "" && b !== "" && !isNaN(Number(a)) && !isNaN(Number(b));
+  const order = numeric ? Number(a) - Number(b) : a.localeCompare(b);
+  switch (op) {
+    case ">": return order > 0;
+    case ">=": return order >= 0;
+    case "<": return order < 0;
+    case "<=": return order <= 0;
+    default: return false;
+  }
+}
+
+/** Cursor over a token list, with helpers for recursive-descent parsing. */
+export interface TokenStream {
+  peek(): Token | undefined;
+  next(): Token | undefined;
+  isKeyword(token: Token | undefined, keyword: string): boolean;
+  /** Throw a syntax error pointing at `token` (default: the next one). */
+  fail(message: string, token?: Token): never;
+}
+
+export function createTokenStream(tokens: Token[]): TokenStream {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  return {
+    peek,
+    next: () => tokens[pos++],
+    isKeyword: (token, keyword) => token?.kind === "word" && token.text.toLowerCase() === keyword,
+    fail(message, token = peek()): never {
+      throw new Error(token ? `${message} at position ${token.at + 1} ("${token.text}")` : `${message} at end of expression`);
+    },
+  };
+}
+
+/**
+ * Parse a condition from the stream, stopping at the first token that can't
+ * continue it (so callers can follow it with clauses of their own).
+ */
+export function parseCondition<T>(stream: TokenStream, valuesOf: (item: T, key: string) => unknown[]): Condition<T> {
+  const { peek, next, isKeyword, fail } = stream;
+  const keys: string[] = [];
+  type Predicate = (item: T) => boolean;
+
+  function parseOr(): Predicate {
+    const parts = [parseAnd()];
+    while (isKeyword(peek(), "or")) {
+      next();
+      parts.push(parseAnd());
+    }
+    return parts.length === 1 ? parts[0] : (item) => parts.some((part) => part(item));
+  }
+
+  function parseAnd(): Predicate {
+    const parts = [parseUnary()];
+    while (isKeyword(peek(), "and")) {
+      next();
+      parts.push(parseUnary());
+    }
+    return parts.length === 1 ? parts[0] : (item) => parts.every((part) => part(item));
+  }
+
+  function parseUnary(): Predicate {
+    const token = peek();
+    if (isKeyword(token, "not")) {
+      next();
+      const inner = parseUnary();
+      return (item) => !inner(item);
+    }
+    if (token?.kind === "(") {
+      next();
+      const inner = parseOr();
+      if (peek()?.kind !== ")") fail('Expected ")"');
+      next();
+      return inner;
+    }
+    return parseComparison();
+  }
+
+  function parseComparison(): Predicate {
+    const keyToken = peek();
+    if (!keyToken || (keyToken.kind !== "word" && keyToken.kind !== "string")) return fail("Expected a property name");
+    if (["and", "or", "not", "contains", "exists"].some((k) => isKeyword(keyToken, k))) fail("Expected a property name");
+    next();
+    const key = keyToken.text;
+    if (!keys.includes(key)) keys.push(key);
+
+    const opToken = peek();
+    if (isKeyword(opToken, "exists")) {
+      next();
+      return (item) => valuesOf(item, key).length > 0;
+    }
+    let op: Operator;
+    if (opToken?.kind === "op") op = opToken.text as Operator;
+    else if (isKeyword(opToken, "contains")) op = "contains";
+    else return fail(`Expected an operator (${OPERATORS.join(", ")} or exists) after "${key}"`);
+    next();
+
+    const valueToken = peek();
+    if (!valueToken || (valueToken.kind !== "word" && valueToken.kind !== "string")) return fail(`Expected a value after "${key} ${op}"`);
+    next();
+    const target = valueToken.text;
+
+    // != holds when no value matches, including when the key is missing
+    if (op === "!=") return (item) => !valuesOf(item, key).some((v) => compare(v, "=", target));
+    return (item) => valuesOf(item, key).some((v) => compare(v, op, target));
+  }
+
+  return { test: parseOr(), keys };
+}
+
+/** Parse a property expression. Throws with the position of the problem on a syntax error. */
+export function compilePropertyExpression(expression: string): PropertyExpression {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) throw new Error("Empty property expression");
+  const stream = createTokenStream(tokens);
+  const condition = parseCondition(stream, propertyValues);
+  if (stream.peek()) stream.fail("Unexpected input");
+  return condition;
+}
+
+/** Notes whose frontmatter matches a property expression, by path. */
+export function findNotesByProperty(expression: PropertyExpression): { name: string; path: string; properties: Record<string, unknown> }[] {
+  const results: { name: string; path: string; properties: Record<string, unknown> }[] = [];
+  for (const node of getGraph().nodes.values()) {
+    if (node.unresolved || !expression.test(node.properties)) continue;
+    results.push({ name: node.name, path: node.path, properties: node.properties });
+  }
+  return results.sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseQuery } from "./query.js";
+
+test("parses every clause, in any order", () => {
+  const query = parseQuery('LIMIT 5 RETURN name, tag, status SORT BY degree DESC, name WHERE folder = Projects FROM "My Note" DEPTH 2 DIRECTION outgoing');
+  assert.deepEqual(query.from, { note: "My Note", depth: 2, direction: "outgoing" });
+  assert.equal(query.limit, 5);
+  assert.deepEqual(query.sort, [
+    { field: "degree", label: "degree", descending: true },
+    { field: "name", label: "name", descending: false },
+  ]);
+  assert.deepEqual(query.fields, [
+    { field: "name", label: "name" },
+    { field: "tags", label: "tag" },
+    { field: "property.status", label: "status" },
+  ]);
+  assert.deepEqual(query.where?.keys, ["folder"]);
+});
+
+test("fills in defaults", () => {
+  assert.deepEqual(parseQuery("FROM A").from, { note: "A", depth: 1, direction: "both" });
+  assert.deepEqual(parseQuery("FROM A").fields.map((f) => f.field), ["name", "path", "distance"]);
+  assert.deepEqual(parseQuery("").fields.map((f) => f.field), ["name", "path"]);
+});
+
+test("reports syntax errors with their position", () => {
+  const cases: [string, RegExp][] = [
+    ["SELECT name", /^Expected FROM, DEPTH, DIRECTION, WHERE, SORT BY, LIMIT or RETURN at position 1 \("SELECT"\)$/],
+    ["LIMIT 5 LIMIT 6", /^Duplicate LIMIT clause at position 9/],
+    ["FROM", /^FROM needs a note name.* at end of expression$/],
+    ["FROM A DEPTH 11", /^DEPTH needs a whole number \(1-10\) at position 14 \("11"\)$/],
+    ["FROM A DEPTH two", /^DEPTH needs a whole number/],
+    ["FROM A DIRECTION sideways", /^DIRECTION must be one of both, outgoing, incoming at position 18/],
+    ["LIMIT 0", /^LIMIT needs a whole number \(at least 1\)/],
+    ["SORT name", /^Expected BY after SORT at position 6 \("name"\)$/],
+    ["SORT BY", /^SORT BY needs a field name at end of expression$/],
+    ["RETURN name,", /^RETURN needs a field name at end of expression$/],
+    ["WHERE (status = active", /^Expected "\)" at end of expression$/],
+    ["WHERE status active", /^Expected an operator .* after "status" at position 14/],
+    ["WHERE status =", /^Expected a value after "status =" at end of expression$/],
+    ["WHERE AND x exists", /^Expected a property name at position 7/],
+    ["WHERE status ! active", /^Unexpected character "!" at position 14$/],
+  ];
+  for (const [query, message] of cases) {
+    assert.throws(() => parseQuery(query), { message }, query);
+  }
+});
+
+test("rejects DEPTH and DIRECTION without FROM", () => {
+  assert.throws(() => parseQuery("DEPTH 2"), /DEPTH and DIRECTION need a FROM note/);
+  assert.throws(() => parseQuery("DIRECTION incoming"), /DEPTH and DIRECTION need a FROM note/);
+});
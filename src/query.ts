@@ -0,0 +1,249 @@
+/**
+ * Graph query language. Selects notes by folder, tag, property and degree,
+ * optionally around a start note, then sorts, limits and picks fields:
+ *
+ *   FROM "Kubernetes" DEPTH 2 DIRECTION both
+ *   WHERE folder = Projects AND tag = infra AND in_degree = 0
+ *   SORT BY degree DESC, name
+ *   LIMIT 20
+ *   RETURN name, path, tags, distance
+ *
+ * Every clause is optional and may appear at most once, in any order. WHERE
+ * takes the property expression syntax (=, !=, <, >, contains, exists, AND,
+ * OR, NOT, parentheses) over note fields; any name that isn't a built-in
+ * field is read from frontmatter (or force it with `property.<name>`).
+ * Runs entirely against the in-memory graph.
+ */
+
+import { getCentrality } from "./centrality.js";
+import { getDegree, getGraph, queryRelated, type Direction, type GraphNode } from "./graph.js";
+import { createTokenStream, parseCondition, propertyValues, tokenize, type Condition, type TokenStream } from "./property-filter.js";
+import { vaultState } from "./vaults.js";
+
+export const QUERY_FIELDS = [
+  "name", "path", "folder", "tags", "aliases", "degree", "in_degree", "out_degree", "distance", "pagerank",
+] as const;
+
+export interface FieldRef {
+  field: string;  // canonical: "tags", "property.status"
+  label: string;  // as written in the query
+}
+
+export interface SortKey extends FieldRef {
+  descending: boolean;
+}
+
+export interface ParsedQuery {
+  from?: { note: string; depth: number; direction: Direction };
+  where?: Condition<QueryNote>;
+  sort: SortKey[];
+  limit?: number;
+  fields: FieldRef[];
+}
+
+export interface QueryResult {
+  fields: string[];                  // column labels
+  rows: Record<string, unknown>[];   // label → value
+  total: number;  // matches before LIMIT
+}
+
+/** A note as the query sees it. */
+interface QueryNote {
+  node: GraphNode;
+  distance?: number;
+}
+
+const DIRECTIONS: Direction[] = ["both", "outgoing", "incoming"];
+const MAX_DEPTH = 10;
+const DEFAULT_LIMIT = 100;
+
+/** Field name as used internally: "tag" → "tags", "property.status" kept as is. */
+function canonicalField(field: string): string {
+  const lower = field.toLowerCase();
+  if (lower.startsWith("property.")) return `property.${field.slice("property.".length)}`;
+  if (lower === "tag") return "tags";
+  if (lower === "alias") return "aliases";
+  return (QUERY_FIELDS as readonly string[]).includes(lower) ? lower : `property.${field}`;
+}
+
+function parseInteger(stream: TokenStream, clause: string, min: number, max = Infinity): number {
+  const token = stream.next();
+  const value = token?.kind === "word" && /^\d+$/.test(token.text) ? Number(token.text) : NaN;
+  if (isNaN(value) || value < min || value > max) {
+    const range = max === Infinity ? `at least ${min}` : `${min}-${max}`;
+    stream.fail(`${clause} needs a whole number (${range})`, token);
+  }
+  return value;
+}
+
+/** Comma-separated field names. */
+function parseFieldList(stream: TokenStream, clause: string, withOrder: boolean): SortKey[] {
+  const keys: SortKey[] = [];
+  for (;;) {
+    const token = stream.next();
+    if (!token || (token.kind !== "word" && token.kind !== "string")) stream.fail(`${clause} needs a field name`, token);
+    let descending = false;
+    if (withOrder && (stream.isKeyword(stream.peek(), "asc") || stream.isKeyword(stream.peek(), "desc"))) {
+      descending = stream.next()!.text.toLowerCase() === "desc";
+    }
+    keys.push({ field: canonicalField(token!.text), label: token!.text, descending });
+    if (stream.peek()?.kind !== ",") return keys;
+    stream.next();
+  }
+}
+
+/** Parse a query. Throws with the position of the problem on a syntax error. */
+export function parseQuery(text: string): ParsedQuery {
+  const stream = createTokenStream(tokenize(text));
+  const { peek, next, isKeyword, fail } = stream;
+  const query: ParsedQuery = { sort: [], fields: [] };
+  const seen = new Set<string>();
+  let depth: number | undefined;
+  let direction: Direction | undefined;
+
+  while (peek()) {
+    const token = peek()!;
+    const clause = token.kind === "word" ? token.text.toLowerCase() : "";
+    if (!["from", "depth", "direction", "where", "sort", "limit", "return"].includes(clause)) {
+      fail("Expected FROM, DEPTH, DIRECTION, WHERE, SORT BY, LIMIT or RETURN");
+    }
+    if (seen.has(clause)) fail(`Duplicate ${clause.toUpperCase()} clause`);
+    seen.add(clause);
+    next();
+
+    switch (clause) {
+      case "from": {
+        const note = next();
+        if (!note || (note.kind !== "word" && note.kind !== "string")) fail("FROM needs a note name, e.g. FROM \"My Note\"", note);
+        query.from = { note: note!.text, depth: 1, direction: "both" };
+        break;
+      }
+      case "depth":
+        depth = parseInteger(stream, "DEPTH", 1, MAX_DEPTH);
+        break;
+      case "direction": {
+        const value = next();
+        const dir = value?.text.toLowerCase() as Direction;
+        if (!value || value.kind !== "word" || !DIRECTIONS.includes(dir)) fail(`DIRECTION must be one of ${DIRECTIONS.join(", ")}`, value);
+        direction = dir;
+        break;
+      }
+      case "where":
+        query.where = parseCondition(stream, fieldValues);
+        break;
+      case "sort":
+        if (!isKeyword(peek(), "by")) fail("Expected BY after SORT");
+        next();
+        query.sort = parseFieldList(stream, "SORT BY", true);
+        break;
+      case "limit":
+        query.limit = parseInteger(stream, "LIMIT", 1);
+        break;
+      case "return":
+        query.fields = parseFieldList(stream, "RETURN", false).map(({ field, label }) => ({ field, label }));
+        break;
+    }
+  }
+
+  if ((depth !== undefined || direction !== undefined) && !query.from) {
+    throw new Error("DEPTH and DIRECTION need a FROM note to traverse from");
+  }
+  if (query.from) {
+    query.from.depth = depth ?? 1;
+    query.from.direction = direction ?? "both";
+  }
+  if (query.fields.length === 0) {
+    query.fields = (query.from ? ["name", "path", "distance"] : ["name", "path"]).map((f) => ({ field: f, label: f }));
+  }
+  return query;
+}
+
+/** Ancestors and self: "Projects/Alpha" → ["Projects", "Projects/Alpha"] */
+function withAncestors(value: string): string[] {
+  const parts = value.split("/");
+  return parts.map((_, i) => parts.slice(0, i + 1).join("/"));
+}
+
+function pagerankOf(path: string): number {
+  const graph = getGraph();
+  const cache = vaultState("query-pagerank", () => ({ version: -1, scores: new Map<string, number>() }));
+  if (cache.version !== graph.version) {
+    cache.version = graph.version;
+    cache.scores = new Map(getCentrality("pagerank").map((c) => [c.path, c.score]));
+  }
+  return cache.scores.get(path) ?? 0;
+}
+
+/** Display value of a field. */
+function fieldValue(note: QueryNote, field: string): unknown {
+  const { node } = note;
+  switch (field) {
+    case "name": return node.name;
+    case "path": return node.path;
+    case "folder": return node.folder;
+    case "tags": return node.tags;
+    case "aliases": return node.aliases;
+    case "out_degree": return getDegree(node.path).outgoing;
+    case "in_degree": return getDegree(node.path).incoming;
+    case "degree": return (fieldValue(note, "out_degree") as number) + (fieldValue(note, "in_degree") as number);
+    case "distance": return note.distance;
+    case "pagerank": return pagerankOf(node.path);
+    default: {
+      const values = propertyValues(node.properties, field.slice("property.".length));
+      return values.length === 0 ? undefined : values.length === 1 ? values[0] : values;
+    }
+  }
+}
+
+/** Values a WHERE comparison tests: folders and tags also match their parents. */
+function fieldValues(note: QueryNote, key: string): unknown[] {
+  const field = canonicalField(key);
+  if (field === "folder") return note.node.folder ? withAncestors(note.node.folder) : [""];
+  if (field === "tags") return note.node.tags.flatMap(withAncestors).flatMap((t) => [t, `#${t}`]);
+  if (field.startsWith("property.")) return propertyValues(note.node.properties, field.slice("property.".length));
+  const value = fieldValue(note, field);
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  // Missing values sort last either way
+  if (a === undefined) return b === undefined ? 0 : 1;
+  if (b === undefined) return -1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: "base" });
+}
+
+/**
+ * Run a parsed query. `startPath` is the resolved FROM note; notes are
+ * selected from within its neighbourhood, else from the whole vault.
+ */
+export function runQuery(query: ParsedQuery, startPath?: string): QueryResult {
+  const graph = getGraph();
+  let notes: QueryNote[];
+  if (query.from && startPath) {
+    const { depth, direction } = query.from;
+    notes = queryRelated(startPath, depth, { direction }).map((r) => ({ node: graph.nodes.get(r.path)!, distance: r.distance }));
+  } else {
+    notes = [...graph.nodes.values()].filter((n) => !n.unresolved).map((node) => ({ node }));
+  }
+
+  const matches = query.where ? notes.filter((n) => query.where!.test(n)) : notes;
+  const sortKeys = query.sort.length > 0 ? query.sort : [{ field: query.from ? "distance" : "path", descending: false }];
+  const sortValues = new Map(matches.map((n) => [n, sortKeys.map((k) => fieldValue(n, k.field))]));
+  matches.sort((a, b) => {
+    for (let i = 0; i < sortKeys.length; i++) {
+      const x = sortValues.get(a)![i];
+      const y = sortValues.get(b)![i];
+      const order = sortKeys[i].descending && x !== undefined && y !== undefined ? compareValues(y, x) : compareValues(x, y);
+      if (order !== 0) return order;
+    }
+    return a.node.path.localeCompare(b.node.path);
+  });
+
+  const limited = matches.slice(0, query.limit ?? DEFAULT_LIMIT);
+  return {
+    fields: query.fields.map((f) => f.label),
+    rows: limited.map((n) => Object.fromEntries(query.fields.map((f) => [f.label, fieldValue(n, f.field)]))),
+    total: matches.length,
+  };
+}
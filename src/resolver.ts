@@ -0,0 +1,208 @@
+/**
+ * Note and link resolution, following Obsidian's rules:
+ * exact vault path, then shortest unique basename (or path suffix),
+ * then relative to the linking note's folder — and finally frontmatter aliases.
+ * Also ranks "did you mean" suggestions when nothing matches.
+ */
+
+/** A note as seen by the resolver. */
+export interface ResolvableNote {
+  path: string;
+  aliases: string[];
+}
+
+export interface Suggestion {
+  path: string;
+  matched: string;  // the name or alias that matched
+  score: number;    // 0..1, higher is closer
+}
+
+export type NoteLookup =
+  | { status: "found"; path: string }
+  | { status: "ambiguous"; candidates: string[] }
+  | { status: "missing"; suggestions: Suggestion[] };
+
+export interface LinkResolver {
+  /** Resolve a wikilink target written in `sourcePath`. Returns the target's vault path, or null if it does not exist. */
+  resolveLink(link: string, sourcePath: string): string | null;
+  /** Resolve a user-supplied note name, path or alias, reporting ambiguity instead of guessing. */
+  lookup(query: string): NoteLookup;
+  /** Names and aliases closest to `query`, best first. */
+  suggest(query: string, limit?: number): Suggestion[];
+}
+
+/** Suggestions scoring below this are too far off to be useful. */
+const MIN_SUGGESTION_SCORE = 0.4;
+
+/** "Infrastructure/Foo.md" → "infrastructure/foo" */
+function normalize(path: string): string {
+  return path.trim().replace(/^\/+/, "").replace(/\.md$/i, "").toLowerCase();
+}
+
+/** Folder of a vault path: "Infrastructure/Foo.md" → "Infrastructure" */
+function folderOf(path: string): string {
+  const parts = path.split("/");
+  return parts.length > 1 ? parts.slice(0, -1).join("/") : "";
+}
+
+/** Join a "./" or "../" link onto a folder, collapsing dot segments. */
+function joinRelative(folder: string, link: string): string {
+  const segments = folder ? folder.split("/") : [];
+  for (const part of link.split("/")) {
+    if (part === "" || part === ".") continue;
+    if (part === "..") segments.pop();
+    else segments.push(part);
+  }
+  return segments.join("/");
+}
+
+/**
+ * Vault path an unresolved link would create, used to key ghost nodes:
+ * "Ideas/Future" → "Ideas/Future.md", "./Draft" from "Notes/A.md" → "Notes/Draft.md"
+ */
+export function unresolvedPath(link: string, sourcePath: string): string {
+  const target = link.startsWith("./") || link.startsWith("../")
+    ? joinRelative(folderOf(sourcePath), link)
+    : link.trim().replace(/^\/+/, "");
+  return target.replace(/\.md$/i, "") + ".md";
+}
+
+function segmentCount(path: string): number {
+  return path.split("/").length;
+}
+
+/** Levenshtein edit distance. */
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+function tokens(s: string): Set<string> {
+  return new Set(s.split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+}
+
+/**
+ * Similarity of two lowercased names in 0..1: the better of normalized edit
+ * distance and token overlap (Jaccard), so both typos ("kubernets") and
+ * partial names ("stack reference") rank well.
+ */
+function similarity(a: string, b: string): number {
+  const editScore = 1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+
+  const ta = tokens(a);
+  const tb = tokens(b);
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  const union = ta.size + tb.size - shared;
+  const tokenScore = union > 0 ? shared / union : 0;
+
+  return Math.max(editScore, tokenScore);
+}
+
+export function createLinkResolver(notes: Iterable<ResolvableNote>): LinkResolver {
+  const byPath = new Map<string, string>();       // normalized path → vault path
+  const byBasename = new Map<string, string[]>(); // normalized basename → vault paths, shortest first
+  const byAlias = new Map<string, string[]>();    // lowercased alias → vault paths, shortest first
+  const names: { path: string; label: string }[] = []; // every name and alias, for suggestions
+
+  const push = (index: Map<string, string[]>, key: string, path: string) => {
+    if (!index.has(key)) index.set(key, []);
+    if (!index.get(key)!.includes(path)) index.get(key)!.push(path);
+  };
+
+  for (const { path, aliases } of notes) {
+    const key = normalize(path);
+    byPath.set(key, path);
+    const base = key.split("/").pop()!;
+    push(byBasename, base, path);
+    names.push({ path, label: path.split("/").pop()!.replace(/\.md$/i, "") });
+    for (const alias of aliases) {
+      push(byAlias, alias.trim().toLowerCase(), path);
+      names.push({ path, label: alias });
+    }
+  }
+  const shortestFirst = (a: string, b: string) => segmentCount(a) - segmentCount(b) || a.localeCompare(b);
+  for (const list of byBasename.values()) list.sort(shortestFirst);
+  for (const list of byAlias.values()) list.sort(shortestFirst);
+
+  /** Notes whose path ends with the (normalized) link, e.g. "alpha/readme" matches "Projects/Alpha/README.md". */
+  function suffixMatches(key: string): string[] {
+    const base = key.split("/").pop()!;
+    return (byBasename.get(base) || []).filter((p) => {
+      const candidate = normalize(p);
+      return candidate === key || candidate.endsWith("/" + key);
+    });
+  }
+
+  /** Names and aliases closest to `query`, best first. */
+  function suggest(query: string, limit = 5): Suggestion[] {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    const best = new Map<string, Suggestion>();
+    for (const { path, label } of names) {
+      const score = similarity(q, label.toLowerCase());
+      if (score < MIN_SUGGESTION_SCORE) continue;
+      const current = best.get(path);
+      if (!current || score > current.score) best.set(path, { path, matched: label, score });
+    }
+    return [...best.values()]
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, limit);
+  }
+
+  return {
+    resolveLink(link: string, sourcePath: string): string | null {
+      const sourceFolder = folderOf(sourcePath);
+
+      // Explicitly relative links only resolve against the source folder
+      if (link.startsWith("./") || link.startsWith("../")) {
+        return byPath.get(normalize(joinRelative(sourceFolder, link))) ?? null;
+      }
+
+      const key = normalize(link);
+      if (!key) return null;
+
+      const exact = byPath.get(key);
+      if (exact) return exact;
+
+      const matches = suffixMatches(key);
+      if (matches.length === 1) return matches[0];
+
+      const relative = byPath.get(normalize(joinRelative(sourceFolder, link)));
+      if (relative) return relative;
+
+      // Several notes share the name — Obsidian picks the one closest to the vault root
+      if (matches.length > 0) return matches[0];
+
+      return byAlias.get(link.trim().toLowerCase())?.[0] ?? null;
+    },
+
+    lookup(query: string): NoteLookup {
+      const key = normalize(query);
+      if (!key) return { status: "missing", suggestions: [] };
+
+      const exact = byPath.get(key);
+      if (exact) return { status: "found", path: exact };
+
+      const matches = suffixMatches(key);
+      if (matches.length === 1) return { status: "found", path: matches[0] };
+      if (matches.length > 1) return { status: "ambiguous", candidates: matches };
+
+      const aliasMatches = byAlias.get(query.trim().toLowerCase()) || [];
+      if (aliasMatches.length === 1) return { status: "found", path: aliasMatches[0] };
+      if (aliasMatches.length > 1) return { status: "ambiguous", candidates: aliasMatches };
+
+      return { status: "missing", suggestions: suggest(query) };
+    },
+
+    suggest,
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * MCP resources: notes and graph views clients can browse, attach as context
+ * and subscribe to.
+ *
+ *   obsidian://note/{path}            note text (markdown), one per note, listed
+ *   obsidian://graph/stats            vault statistics (JSON)
+ *   obsidian://graph/neighbors/{note} a note's incoming and outgoing links (JSON);
+ *                                     {note} is a name, vault path or alias
+ *
+ * After every build, each subscribed resource is rendered again and the
+ * subscriber notified if it came out different — so a neighbours resource
+ * updates when a linked note is added or removed, not on every edit nearby.
+ *
+ * Resources cover only the default (first) vault; other vaults are reached
+ * through the tools' `vault` parameter. With several vaults, the resource
+ * descriptions say which vault they show.
+ */
+
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
+import { getGraph, getLinkContexts, getStats, onGraphRefresh } from "./graph.js";
+import { resolveNoteArg } from "./tools/resolve-note.js";
+import { currentVault, getVault, getVaults } from "./vaults.js";
+
+const NOTE_PREFIX = "obsidian://note/";
+const STATS_URI = "obsidian://graph/stats";
+const NEIGHBORS_PREFIX = "obsidian://graph/neighbors/";
+const MAX_COMPLETIONS = 50;
+
+/** "Projects/My Note.md" → "obsidian://note/Projects/My%20Note.md" */
+function noteUri(path: string): string {
+  return NOTE_PREFIX + path.split("/").map(encodeURIComponent).join("/");
+}
+
+function decodeVariable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value.join(",") : value);
+}
+
+/** Note paths or names starting with (else containing) what has been typed so far. */
+function completeNotes(value: string, byName: boolean): string[] {
+  const typed = value.toLowerCase();
+  const candidates = [...getGraph().nodes.values()]
+    .filter((n) => !n.unresolved)
+    .map((n) => (byName ? n.name : n.path));
+  const prefixed = candidates.filter((c) => c.toLowerCase().startsWith(typed));
+  const containing = candidates.filter((c) => !c.toLowerCase().startsWith(typed) && c.toLowerCase().includes(typed));
+  return [...new Set([...prefixed.sort(), ...containing.sort()])].slice(0, MAX_COMPLETIONS);
+}
+
+function readNote(path: string): string {
+  const node = getGraph().nodes.get(path);
+  if (!node || node.unresolved) throw new Error(`Note "${path}" not found in graph.`);
+  return getGraph().contents.get(path) || "";
+}
+
+function readStats(): string {
+  return JSON.stringify(getStats(), null, 2);
+}
+
+function readNeighbors(note: string): string {
+  const resolved = resolveNoteArg(note);
+  if ("error" in resolved) throw new Error(resolved.error);
+  const node = getGraph().nodes.get(resolved.path)!;
+  const side = (direction: "incoming" | "outgoing") =>
+    getLinkContexts(resolved.path, direction).map((c) => ({
+      name: c.name,
+      path: c.path,
+      unresolved: c.unresolved,
+      links: c.links.length,
+      types: [...new Set(c.links.map((l) => l.type))],
+      properties: [...new Set(c.links.flatMap((l) => (l.property ? [l.property] : [])))],
+    }));
+  return JSON.stringify({ name: node.name, path: node.path, tags: node.tags, outgoing: side("outgoing"), incoming: side("incoming") }, null, 2);
+}
+
+/** Current text of a resource by URI, or null if it no longer exists. */
+function render(uri: string): string | null {
+  try {
+    if (uri === STATS_URI) return readStats();
+    if (uri.startsWith(NOTE_PREFIX)) return readNote(decodeURIComponent(uri.slice(NOTE_PREFIX.length)));
+    if (uri.startsWith(NEIGHBORS_PREFIX)) return readNeighbors(decodeURIComponent(uri.slice(NEIGHBORS_PREFIX.length)));
+  } catch {
+    // Gone (or, for a name, now ambiguous)
+  }
+  return null;
+}
+
+export function registerResources(server: McpServer) {
+  const scope = getVaults().length > 1 ? ` — "${getVault().config.name}" vault only` : "";
+
+  server.registerResource(
+    "graph-stats",
+    STATS_URI,
+    { title: "Vault statistics", description: `Note, link, tag and folder counts, orphans and unresolved links${scope}`, mimeType: "application/json" },
+    async (uri) => ({ contents: [{ uri: uri.href, mimeType: "application/json", text: readStats() }] })
+  );
+
+  server.registerResource(
+    "note",
+    new ResourceTemplate(`${NOTE_PREFIX}{+path}`, {
+      list: async () => ({
+        resources: [...getGraph().nodes.values()]
+          .filter((n) => !n.unresolved)
+          .sort((a, b) => a.path.localeCompare(b.path))
+          .map((n) => ({ uri: noteUri(n.path), name: n.name, description: n.path, mimeType: "text/markdown" })),
+      }),
+      complete: { path: (value) => completeNotes(value, false) },
+    }),
+    { title: "Note", description: `A note's markdown text, by vault path${scope}`, mimeType: "text/markdown" },
+    async (uri, { path }) => ({ contents: [{ uri: uri.href, mimeType: "text/markdown", text: readNote(decodeVariable(path)) }] })
+  );
+
+  server.registerResource(
+    "note-neighbors",
+    new ResourceTemplate(`${NEIGHBORS_PREFIX}{+note}`, {
+      list: undefined,
+      complete: { note: (value) => completeNotes(value, true) },
+    }),
+    {
+      title: "Note neighbours",
+      description: `Notes a note links to and is linked from (name, vault path or alias), with link counts, types and properties${scope}`,
+      mimeType: "application/json",
+    },
+    async (uri, { note }) => ({ contents: [{ uri: uri.href, mimeType: "application/json", text: readNeighbors(decodeVariable(note)) }] })
+  );
+
+  // Subscriptions: remember what each subscribed resource looked like
+  const subscriptions = new Map<string, string | null>();
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscriptions.set(request.params.uri, render(request.params.uri));
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const unsubscribe = onGraphRefresh(async (result) => {
+    if (!server.isConnected() || currentVault() !== getVault()) return;
+    if (result.added.length + result.changed.length + result.removed.length === 0) return;
+
+    for (const [uri, before] of subscriptions) {
+      const after = render(uri);
+      if (after === before) continue;
+      subscriptions.set(uri, after);
+      await server.server.sendResourceUpdated({ uri });
+    }
+
+    // Notes came or went: the resource list is different
+    if (result.added.length > 0 || result.removed.length > 0) server.sendResourceListChanged();
+  });
+
+  // Stop watching once the session ends
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    unsubscribe();
+    onclose?.();
+  };
+}
@@ -0,0 +1,281 @@
+/**
+ * Full-text search and content similarity.
+ * An in-memory inverted index over note names, aliases and text, ranked with
+ * BM25 and optionally blended with PageRank or closeness to an anchor note.
+ * The same term frequencies give TF-IDF vectors for note-to-note similarity.
+ * The index follows the graph: notes whose content hash changed since they
+ * were indexed are re-indexed, removed notes dropped.
+ */
+
+import { getCentrality } from "./centrality.js";
+import { compileFilter, getGraph, queryRelated, type NoteFilter } from "./graph.js";
+import { vaultState } from "./vaults.js";
+
+export interface SearchHit {
+  path: string;
+  name: string;
+  score: number;       // blended score, 0..1
+  relevance: number;   // raw BM25 score
+  matchedTerms: string[];
+  snippets: string[];  // lines containing matched terms, with the terms in **bold**
+}
+
+export interface SearchOptions {
+  limit?: number;
+  rankBy?: "relevance" | "centrality" | "proximity";
+  anchor?: string;       // note path, for proximity ranking
+  graphWeight?: number;  // 0..1, share of the score taken by the graph signal (default 0.3)
+  filter?: NoteFilter;
+}
+
+export interface SimilarNote {
+  path: string;
+  name: string;
+  similarity: number;      // cosine, 0..1
+  sharedTerms: string[];   // the terms contributing most
+  distance: number | null; // hops in the link graph (1 = linked), null if further than PROXIMITY_DEPTH
+}
+
+interface IndexedDoc {
+  hash: string;
+  length: number;               // weighted token count
+  terms: Map<string, number>;   // term → weighted frequency
+}
+
+const K1 = 1.2;
+const B = 0.75;
+/** Name and alias words count this many times over a word in the body. */
+const TITLE_BOOST = 3;
+/** How many hops out graph distances are measured, for proximity ranking and similar notes. */
+export const PROXIMITY_DEPTH = 6;
+const MAX_SNIPPETS = 3;
+const MAX_SNIPPET_LENGTH = 200;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have", "in", "is", "it",
+  "its", "of", "on", "or", "that", "the", "this", "to", "was", "were", "will", "with",
+]);
+
+interface SearchIndex {
+  docs: Map<string, IndexedDoc>;
+  postings: Map<string, Map<string, number>>;  // term → path → weighted frequency
+  totalLength: number;
+  indexVersion: number;  // bumped whenever a note is indexed or dropped
+  normCache: { version: number; norms: Map<string, number> } | null;
+}
+
+/** The current vault's index. */
+function searchIndex(): SearchIndex {
+  return vaultState("search", () => ({ docs: new Map(), postings: new Map(), totalLength: 0, indexVersion: 0, normCache: null }));
+}
+
+/** Lowercased words of a text, stopwords dropped. */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter((t) => !STOPWORDS.has(t));
+}
+
+function removeDoc(path: string): void {
+  const index = searchIndex();
+  const doc = index.docs.get(path);
+  if (!doc) return;
+  for (const term of doc.terms.keys()) {
+    const list = index.postings.get(term)!;
+    list.delete(path);
+    if (list.size === 0) index.postings.delete(term);
+  }
+  index.totalLength -= doc.length;
+  index.docs.delete(path);
+  index.indexVersion++;
+}
+
+function addDoc(path: string, hash: string, title: string[], content: string): void {
+  const index = searchIndex();
+  const terms = new Map<string, number>();
+  for (const t of title) terms.set(t, (terms.get(t) || 0) + TITLE_BOOST);
+  // Frontmatter values are searchable, its keys ("tags:", "aliases:") are not
+  const text = content.replace(/^---\n[\s\S]*?\n---/, (fm) => fm.replace(/^[\w-]+:/gm, ""));
+  for (const t of tokenize(text)) terms.set(t, (terms.get(t) || 0) + 1);
+  let length = 0;
+  for (const [term, tf] of terms) {
+    length += tf;
+    if (!index.postings.has(term)) index.postings.set(term, new Map());
+    index.postings.get(term)!.set(path, tf);
+  }
+  index.docs.set(path, { hash, length, terms });
+  index.totalLength += length;
+  index.indexVersion++;
+}
+
+/**
+ * Bring the index in line with the graph: index new and changed notes, drop
+ * removed ones. Cheap when nothing changed; run after every build.
+ */
+export function updateSearchIndex(): void {
+  const index = searchIndex();
+  const graph = getGraph();
+  for (const path of [...index.docs.keys()]) {
+    if (!graph.noteStates.has(path)) removeDoc(path);
+  }
+  for (const [path, state] of graph.noteStates) {
+    if (index.docs.get(path)?.hash === state.hash) continue;
+    const node = graph.nodes.get(path)!;
+    removeDoc(path);
+    addDoc(path, state.hash, tokenize([node.name, ...node.aliases].join(" ")), graph.contents.get(path) || "");
+  }
+}
+
+/** Lines of the note containing any of the terms, with the terms in bold. */
+function snippets(content: string, terms: Set<string>): string[] {
+  const result: string[] = [];
+  for (const raw of content.split("\n")) {
+    const words = tokenize(raw);
+    if (!words.some((w) => terms.has(w))) continue;
+    let line = raw.trim();
+    if (line.length > MAX_SNIPPET_LENGTH) {
+      // Centre long lines on the first match
+      const first = line.toLowerCase().search(new RegExp([...terms].filter((t) => line.toLowerCase().includes(t)).join("|")));
+      const start = Math.max(0, first - MAX_SNIPPET_LENGTH / 2);
+      line = (start > 0 ? "…" : "") + line.slice(start, start + MAX_SNIPPET_LENGTH) + "…";
+    }
+    result.push(line.replace(/[\p{L}\p{N}]+/gu, (w) => (terms.has(w.toLowerCase()) ? `**${w}**` : w)));
+    if (result.length >= MAX_SNIPPETS) break;
+  }
+  return result;
+}
+
+/**
+ * Search notes by text. Every query word is optional; notes matching more
+ * (and rarer) words rank higher. With `rankBy` centrality or proximity, the
+ * score blends normalized BM25 with PageRank or 1 / (1 + hops from `anchor`).
+ */
+export function search(query: string, options: SearchOptions = {}): SearchHit[] {
+  const index = searchIndex();
+  updateSearchIndex();
+  const graph = getGraph();
+  const queryTerms = [...new Set(tokenize(query))].filter((t) => index.postings.has(t));
+  if (queryTerms.length === 0 || index.docs.size === 0) return [];
+
+  // BM25
+  const avgLength = index.totalLength / index.docs.size;
+  const relevance = new Map<string, number>();
+  const matched = new Map<string, string[]>();
+  for (const term of queryTerms) {
+    const list = index.postings.get(term)!;
+    const idf = Math.log(1 + (index.docs.size - list.size + 0.5) / (list.size + 0.5));
+    for (const [path, tf] of list) {
+      const length = index.docs.get(path)!.length;
+      const score = idf * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * length) / avgLength)));
+      relevance.set(path, (relevance.get(path) || 0) + score);
+      if (!matched.has(path)) matched.set(path, []);
+      matched.get(path)!.push(term);
+    }
+  }
+
+  const allow = compileFilter(options.filter);
+  const candidates = [...relevance].filter(([path]) => allow(graph.nodes.get(path)!));
+  if (candidates.length === 0) return [];
+  const maxRelevance = Math.max(...candidates.map(([, r]) => r));
+
+  // Graph signal in 0..1
+  const rankBy = options.rankBy ?? "relevance";
+  const weight = rankBy === "relevance" ? 0 : options.graphWeight ?? 0.3;
+  let boost: (path: string) => number = () => 0;
+  if (rankBy === "centrality") {
+    const ranks = new Map(getCentrality("pagerank").map((c) => [c.path, c.score]));
+    const maxRank = Math.max(...candidates.map(([path]) => ranks.get(path) || 0)) || 1;
+    boost = (path) => (ranks.get(path) || 0) / maxRank;
+  } else if (rankBy === "proximity" && options.anchor) {
+    const distance = new Map(queryRelated(options.anchor, PROXIMITY_DEPTH).map((r) => [r.path, r.distance]));
+    distance.set(options.anchor, 0);
+    boost = (path) => (distance.has(path) ? 1 / (1 + distance.get(path)!) : 0);
+  }
+
+  return candidates
+    .map(([path, r]) => ({ path, relevance: r, score: (1 - weight) * (r / maxRelevance) + weight * boost(path) }))
+    .sort((a, b) => b.score - a.score || b.relevance - a.relevance || a.path.localeCompare(b.path))
+    .slice(0, options.limit ?? Infinity)
+    .map(({ path, relevance: r, score }) => {
+      const terms = matched.get(path)!;
+      return {
+        path,
+        name: graph.nodes.get(path)!.name,
+        score,
+        relevance: r,
+        matchedTerms: terms,
+        snippets: snippets(graph.contents.get(path) || "", new Set(terms)),
+      };
+    });
+}
+
+/** Inverse document frequency for TF-IDF; 0 for terms in every note. */
+function idf(term: string): number {
+  const index = searchIndex();
+  return Math.log(index.docs.size / (index.postings.get(term)?.size || index.docs.size));
+}
+
+function tfidf(tf: number, term: string): number {
+  return (1 + Math.log(tf)) * idf(term);
+}
+
+/** Vector lengths, recomputed after the index changes (IDF shifts with every note). */
+function vectorNorms(): Map<string, number> {
+  const index = searchIndex();
+  if (!index.normCache || index.normCache.version !== index.indexVersion) {
+    const norms = new Map<string, number>();
+    for (const [path, doc] of index.docs) {
+      let sum = 0;
+      for (const [term, tf] of doc.terms) sum += tfidf(tf, term) ** 2;
+      norms.set(path, Math.sqrt(sum));
+    }
+    index.normCache = { version: index.indexVersion, norms };
+  }
+  return index.normCache.norms;
+}
+
+/**
+ * Notes whose TF-IDF vectors (over name, aliases and text) are closest to
+ * `path` by cosine similarity, most similar first, with their link distance.
+ */
+export function similarNotes(path: string, options: { limit?: number; filter?: NoteFilter } = {}): SimilarNote[] {
+  const index = searchIndex();
+  updateSearchIndex();
+  const graph = getGraph();
+  const doc = index.docs.get(path);
+  if (!doc) return [];
+  const norms = vectorNorms();
+  const norm = norms.get(path)!;
+  if (norm === 0) return [];
+
+  // Dot products via the index.postings of the note's own terms
+  const dots = new Map<string, number>();
+  const contributions = new Map<string, [string, number][]>();
+  for (const [term, tf] of doc.terms) {
+    if (idf(term) <= 0) continue;
+    const weight = tfidf(tf, term);
+    for (const [other, otherTf] of index.postings.get(term)!) {
+      if (other === path) continue;
+      const product = weight * tfidf(otherTf, term);
+      dots.set(other, (dots.get(other) || 0) + product);
+      if (!contributions.has(other)) contributions.set(other, []);
+      contributions.get(other)!.push([term, product]);
+    }
+  }
+
+  const allow = compileFilter(options.filter);
+  const distance = new Map(queryRelated(path, PROXIMITY_DEPTH).map((r) => [r.path, r.distance]));
+  return [...dots]
+    .filter(([other]) => allow(graph.nodes.get(other)!))
+    .map(([other, dot]) => ({ path: other, similarity: dot / (norm * norms.get(other)!) }))
+    .sort((a, b) => b.similarity - a.similarity || a.path.localeCompare(b.path))
+    .slice(0, options.limit ?? Infinity)
+    .map(({ path: other, similarity }) => ({
+      path: other,
+      name: graph.nodes.get(other)!.name,
+      similarity,
+      sharedTerms: contributions.get(other)!
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([term]) => term),
+      distance: distance.get(other) ?? null,
+    }));
+}
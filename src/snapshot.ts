@@ -0,0 +1,132 @@
+/**
+ * On-disk graph snapshot.
+ * Lets the server answer from the last known graph on a cold start while a
+ * background refresh reconciles it against the vault.
+ *
+ * File format: { version, checksum, payload } where checksum is the sha256 of
+ * the serialized payload. Snapshots with another version, a bad checksum,
+ * from a different vault source or built under different config rules are
+ * discarded.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { graphSettingsKey } from "./config.js";
+import { getGraph, type GraphNode, type NoteState } from "./graph.js";
+import type { ParsedLink } from "./parser.js";
+import { getVaultSource } from "./vault-source.js";
+import { currentVault } from "./vaults.js";
+
+const SNAPSHOT_VERSION = 9;
+
+interface SnapshotPayload {
+  source: string;
+  settings: string;  // graphSettingsKey() of the config it was built with
+  lastRefresh: string;
+  nodes: GraphNode[];
+  edges: [string, [string, ParsedLink[]][]][];  // path → target path → link occurrences
+  noteStates: [string, NoteState][];
+  contents: [string, string][];
+}
+
+interface SnapshotFile {
+  version: number;
+  checksum: string;
+  payload: SnapshotPayload;
+}
+
+function checksum(payload: SnapshotPayload): string {
+  return createHash("sha256").update(JSON.stringify(payload)).digest("hex");
+}
+
+/** The current vault's snapshot location, or null when caching is disabled. */
+export function getSnapshotPath(): string | null {
+  return currentVault().config.cachePath ?? null;
+}
+
+/**
+ * Write the current graph to `path`. Written to a temp file first so a crash
+ * mid-write never leaves a truncated snapshot behind.
+ */
+export async function saveSnapshot(path: string): Promise<void> {
+  const graph = getGraph();
+  const payload: SnapshotPayload = {
+    source: getVaultSource().description,
+    settings: graphSettingsKey(),
+    lastRefresh: graph.lastRefresh.toISOString(),
+    nodes: [...graph.nodes.values()],
+    edges: [...graph.edges].map(([path, targets]) => [path, [...targets]]),
+    noteStates: [...graph.noteStates],
+    contents: [...graph.contents],
+  };
+  const file: SnapshotFile = { version: SNAPSHOT_VERSION, checksum: checksum(payload), payload };
+
+  await mkdir(dirname(path), { recursive: true });
+  const tmpPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(file));
+  await rename(tmpPath, path);
+}
+
+/**
+ * Load a snapshot into the graph. Returns false (leaving the graph untouched)
+ * when the file is missing, corrupt, outdated or from another vault.
+ */
+export async function loadSnapshot(path: string): Promise<boolean> {
+  let file: SnapshotFile;
+  try {
+    file = JSON.parse(await readFile(path, "utf8")) as SnapshotFile;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`[graph-memory] Ignoring unreadable snapshot ${path}:`, err);
+    }
+    return false;
+  }
+
+  if (file.version !== SNAPSHOT_VERSION) {
+    console.error(`[graph-memory] Ignoring snapshot with format version ${file.version} (expected ${SNAPSHOT_VERSION}).`);
+    return false;
+  }
+  if (!file.payload || file.checksum !== checksum(file.payload)) {
+    console.error("[graph-memory] Ignoring snapshot with bad checksum.");
+    return false;
+  }
+  const { payload } = file;
+  if (payload.source !== getVaultSource().description) {
+    console.error(`[graph-memory] Ignoring snapshot from another vault source (${payload.source}).`);
+    return false;
+  }
+  if (payload.settings !== graphSettingsKey()) {
+    console.error("[graph-memory] Ignoring snapshot built with different config rules.");
+    return false;
+  }
+
+  const graph = getGraph();
+  graph.nodes.clear();
+  graph.edges.clear();
+  graph.reverseEdges.clear();
+  graph.noteStates.clear();
+  graph.contents.clear();
+
+  for (const node of payload.nodes) {
+    graph.nodes.set(node.path, node);
+    graph.edges.set(node.path, new Map());
+    graph.reverseEdges.set(node.path, new Set());
+  }
+  for (const [path, targets] of payload.edges) {
+    for (const [target, links] of targets) {
+      graph.edges.get(path)?.set(target, links);
+      graph.reverseEdges.get(target)?.add(path);
+    }
+  }
+  for (const [path, state] of payload.noteStates) {
+    graph.noteStates.set(path, state);
+  }
+  for (const [path, content] of payload.contents) {
+    graph.contents.set(path, content);
+  }
+  graph.lastRefresh = new Date(payload.lastRefresh);
+  graph.version++;
+
+  return true;
+}
@@ -0,0 +1,180 @@
+/**
+ * Link suggestions.
+ * Missing links: unlinked note pairs ranked by neighbourhood similarity
+ * (common neighbours, Adamic-Adar, shared tags).
+ * Unlinked mentions: a note's name or alias written as plain text in another
+ * note that doesn't link to it.
+ */
+
+import { getGraph, getNoteAdjacency } from "./graph.js";
+import { proseText } from "./parser.js";
+
+export const SUGGESTION_METHODS = ["adamic-adar", "common-neighbors", "shared-tags"] as const;
+export type SuggestionMethod = (typeof SUGGESTION_METHODS)[number];
+
+export interface LinkSuggestion {
+  a: string;
+  b: string;
+  score: number;
+  sharedNeighbors: string[];  // paths, least-connected (most telling) first
+  sharedTags: string[];
+}
+
+export interface UnlinkedMention {
+  source: string;   // note containing the plain-text mention
+  target: string;   // note it mentions
+  matched: string;  // the text as written
+  line: number;
+  context: string;  // the line, trimmed
+}
+
+/**
+ * Vault-wide, neighbours of notes linked to more than this many notes (and
+ * tags on more than this many notes) are not paired up: such hubs say little
+ * about any one pair, and pairing them is quadratic.
+ */
+const MAX_GROUP_SIZE = 200;
+/** Single-word names shorter than this are too likely to be ordinary words. */
+const MIN_NAME_LENGTH = 3;
+const MAX_CONTEXT = 200;
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}\0${b}` : `${b}\0${a}`;
+}
+
+/** Every pair from a group of paths. */
+function addPairs(group: string[], pairs: Set<string>): void {
+  for (let i = 0; i < group.length; i++) {
+    for (let j = i + 1; j < group.length; j++) pairs.add(pairKey(group[i], group[j]));
+  }
+}
+
+/**
+ * Unlinked note pairs ranked by `method`, best first. With `note`, only pairs
+ * involving that note. Pairs already linked in either direction are skipped.
+ */
+export function suggestLinks(method: SuggestionMethod, options: { note?: string; limit?: number } = {}): LinkSuggestion[] {
+  const graph = getGraph();
+  const adjacency = getNoteAdjacency();
+  const byTag = new Map<string, string[]>();
+  for (const path of adjacency.keys()) {
+    for (const tag of graph.nodes.get(path)!.tags) {
+      if (!byTag.has(tag)) byTag.set(tag, []);
+      byTag.get(tag)!.push(path);
+    }
+  }
+
+  // Candidate pairs: two hops apart, or sharing a tag
+  const pairs = new Set<string>();
+  if (options.note) {
+    const note = options.note;
+    for (const neighbor of adjacency.get(note)?.keys() || []) {
+      for (const other of adjacency.get(neighbor)!.keys()) pairs.add(pairKey(note, other));
+    }
+    for (const tag of graph.nodes.get(note)?.tags || []) {
+      for (const other of byTag.get(tag) || []) pairs.add(pairKey(note, other));
+    }
+  } else {
+    for (const linked of adjacency.values()) {
+      if (linked.size <= MAX_GROUP_SIZE) addPairs([...linked.keys()], pairs);
+    }
+    for (const group of byTag.values()) {
+      if (group.length <= MAX_GROUP_SIZE) addPairs(group, pairs);
+    }
+  }
+
+  const suggestions: LinkSuggestion[] = [];
+  for (const key of pairs) {
+    const [a, b] = key.split("\0");
+    if (a === b || adjacency.get(a)!.has(b)) continue;
+
+    const nb = adjacency.get(b)!;
+    const sharedNeighbors = [...adjacency.get(a)!.keys()]
+      .filter((n) => nb.has(n))
+      .sort((x, y) => adjacency.get(x)!.size - adjacency.get(y)!.size || x.localeCompare(y));
+    const tagsB = new Set(graph.nodes.get(b)!.tags);
+    const sharedTags = graph.nodes.get(a)!.tags.filter((t) => tagsB.has(t)).sort();
+
+    let score: number;
+    switch (method) {
+      case "common-neighbors":
+        score = sharedNeighbors.length;
+        break;
+      case "adamic-adar":
+        // A shared neighbour counts for more the fewer links it has
+        score = sharedNeighbors.reduce((sum, n) => sum + 1 / Math.log(adjacency.get(n)!.size), 0);
+        break;
+      case "shared-tags":
+        score = sharedTags.length;
+        break;
+    }
+    if (score > 0) suggestions.push({ a, b, score, sharedNeighbors, sharedTags });
+  }
+
+  return suggestions
+    .sort((x, y) => y.score - x.score || x.a.localeCompare(y.a) || x.b.localeCompare(y.b))
+    .slice(0, options.limit ?? Infinity);
+}
+
+/** Words of a name or text, lowercased, with their offsets. */
+function words(text: string): { word: string; start: number; end: number }[] {
+  const result: { word: string; start: number; end: number }[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    result.push({ word: match[0].toLowerCase(), start: match.index!, end: match.index! + match[0].length });
+  }
+  return result;
+}
+
+/**
+ * Plain-text mentions of note names and aliases, matched word by word
+ * (case-insensitive), outside links, code, frontmatter and tags. With `note`,
+ * mentions of that note elsewhere plus mentions of other notes inside it.
+ * Notes that already link to the mentioned note are skipped.
+ */
+export function findUnlinkedMentions(options: { note?: string } = {}): UnlinkedMention[] {
+  const graph = getGraph();
+  const note = options.note;
+
+  // Names indexed by their first word
+  const names = new Map<string, { target: string; words: string[] }[]>();
+  for (const node of graph.nodes.values()) {
+    if (node.unresolved) continue;
+    for (const name of new Set([node.name, ...node.aliases])) {
+      const nameWords = words(name).map((w) => w.word);
+      if (nameWords.length === 0 || (nameWords.length === 1 && nameWords[0].length < MIN_NAME_LENGTH)) continue;
+      if (!names.has(nameWords[0])) names.set(nameWords[0], []);
+      names.get(nameWords[0])!.push({ target: node.path, words: nameWords });
+    }
+  }
+
+  const mentions: UnlinkedMention[] = [];
+  for (const [source, content] of graph.contents) {
+    const linked = graph.edges.get(source) || new Map();
+    const prose = proseText(content);
+    const lines = content.split("\n");
+    const text = words(prose);
+    const seen = new Set<string>(); // one mention per target per line
+
+    for (let i = 0; i < text.length; i++) {
+      for (const name of names.get(text[i].word) || []) {
+        const { target } = name;
+        if (target === source || linked.has(target)) continue;
+        if (note && source !== note && target !== note) continue;
+        if (!name.words.every((w, k) => text[i + k]?.word === w)) continue;
+
+        const start = text[i].start;
+        const end = text[i + name.words.length - 1].end;
+        const line = content.slice(0, start).split("\n").length;
+        const key = `${target}\0${line}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        let context = lines[line - 1].trim();
+        if (context.length > MAX_CONTEXT) context = context.slice(0, MAX_CONTEXT - 1) + "…";
+        mentions.push({ source, target, matched: content.slice(start, end), line, context });
+      }
+    }
+  }
+
+  return mentions.sort((x, y) => x.target.localeCompare(y.target) || x.source.localeCompare(y.source) || x.line - y.line);
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { addLink } from "../note-writer.js";
+import { resolveNoteArg } from "./resolve-note.js";
+import { describeWrite, dryRunSchema } from "./write-result.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  from: z.string().describe("Note to add the link to (name, vault path or alias)"),
+  to: z.string().describe("Note to link to (name, vault path or alias)"),
+  heading: z.string().optional().describe("Add the link as a list item under this heading, e.g. \"Related\" (added if missing). Default: end of the note"),
+  note: z.string().optional().describe("Short text after the link saying how the notes relate"),
+  property: z.string().optional().describe("Add the link to this frontmatter list property instead, e.g. \"related\" or \"up\""),
+  ...dryRunSchema,
+};
+
+export function registerAddLink(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_add_link",
+    "Add a wikilink from one note to another, as a list item or in a frontmatter property. Does nothing if the link already exists. Use to connect memories — \"X relates to Y\"",
+    schema,
+    async ({ from, to, heading, note, property, dryRun }) => {
+      const source = resolveNoteArg(from);
+      if ("error" in source) {
+        return { content: [{ type: "text" as const, text: source.error }] };
+      }
+      const target = resolveNoteArg(to);
+      if ("error" in target) {
+        return { content: [{ type: "text" as const, text: target.error }] };
+      }
+
+      const result = await addLink(source.path, target.path, { heading, note, property, dryRun });
+      return { content: [{ type: "text" as const, text: describeWrite(result) }] };
+    }
+  );
+}
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { appendToNote } from "../note-writer.js";
+import { resolveNoteArg } from "./resolve-note.js";
+import { describeWrite, dryRunSchema } from "./write-result.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  note: z.string().describe("Note name, vault path or alias"),
+  text: z.string().describe("Markdown to append"),
+  heading: z.string().optional().describe("Append at the end of this heading's section, e.g. \"Log\" or \"## Log\" (added if missing). Default: end of the note"),
+  ...dryRunSchema,
+};
+
+export function registerAppendToNote(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_append_to_note",
+    "Append text to an existing note, at the end or under a heading. The rest of the note is left as it is. Use to add to a running log or an existing memory",
+    schema,
+    async ({ note, text, heading, dryRun }) => {
+      const resolved = resolveNoteArg(note);
+      if ("error" in resolved) {
+        return { content: [{ type: "text" as const, text: resolved.error }] };
+      }
+
+      const result = await appendToNote(resolved.path, text, { heading, dryRun });
+      return { content: [{ type: "text" as const, text: describeWrite(result) }] };
+    }
+  );
+}
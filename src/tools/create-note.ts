@@ -0,0 +1,26 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createNote } from "../note-writer.js";
+import { describeWrite, dryRunSchema } from "./write-result.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  path: z.string().describe("Vault path of the new note, e.g. \"Agent Memory/Kubernetes upgrade.md\" (.md is added if missing)"),
+  content: z.string().describe("Markdown body; use [[wikilinks]] to connect it to other notes"),
+  tags: z.array(z.string()).optional().describe("Tags for the frontmatter, e.g. [\"decision\", \"infra\"]"),
+  properties: z.record(z.unknown()).optional().describe("Other frontmatter properties, e.g. {\"status\": \"active\"}"),
+  ...dryRunSchema,
+};
+
+export function registerCreateNote(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_create_note",
+    "Create a new note, with optional tags and frontmatter properties. Never replaces an existing note. Use to record something learned as its own note — \"remember this\"",
+    schema,
+    async ({ path, content, tags, properties, dryRun }) => {
+      const result = await createNote(path, { content, tags, properties, dryRun });
+      return { content: [{ type: "text" as const, text: describeWrite(result) }] };
+    }
+  );
+}
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { lstat, mkdir, realpath, writeFile } from "node:fs/promises";
+import { dirname, resolve, sep } from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { collectGraph, EXPORT_FORMATS, formatGraph } from "../export.js";
+import { noteFilterSchema, toNoteFilter } from "./filter-schema.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  format: z.enum(EXPORT_FORMATS).describe("graphml (Gephi, Cytoscape, yEd), gexf (Gephi), dot (Graphviz), json (node-link, e.g. networkx, D3) or mermaid (flowchart to paste into a note)"),
+  includeUnresolved: z.boolean().default(false).describe("Include unresolved link targets (notes that don't exist yet)"),
+  ...noteFilterSchema,
+  outputPath: z.string().optional().describe("File to write the export to instead of returning it, relative to the server's GRAPH_EXPORT_DIR (only available when that is set)"),
+  overwrite: z.boolean().default(false).describe("Replace outputPath if it already exists"),
+};
+
+/** Whether `path` is `dir` or inside it. */
+function isInside(dir: string, path: string): boolean {
+  return path === dir || path.startsWith(dir + sep);
+}
+
+/** The real location of `path`, or of its nearest existing ancestor. */
+async function realAncestor(path: string): Promise<string> {
+  try {
+    return await realpath(path);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT" || dirname(path) === path) throw err;
+    return realAncestor(dirname(path));
+  }
+}
+
+/**
+ * Write an export inside GRAPH_EXPORT_DIR. Returns an error message for paths
+ * outside it (including through symlinks), or for an existing file without `overwrite`.
+ */
+async function writeExport(outputPath: string, output: string, overwrite: boolean): Promise<string | null> {
+  const exportDir = process.env.GRAPH_EXPORT_DIR;
+  if (!exportDir) return "Writing exports to files is disabled — set GRAPH_EXPORT_DIR on the server, or omit outputPath to get the export inline.";
+  const root = resolve(exportDir);
+  const target = resolve(root, outputPath);
+  const outside = `outputPath must be a file inside the export directory: "${outputPath}".`;
+  if (!isInside(root, target) || target === root) return outside;
+
+  // Symlinks must not lead out of the directory either
+  await mkdir(root, { recursive: true });
+  if (!isInside(await realpath(root), await realAncestor(dirname(target)))) return outside;
+  const existing = await lstat(target).catch(() => null);
+  if (existing?.isSymbolicLink()) return outside;
+  await mkdir(dirname(target), { recursive: true });
+  try {
+    await writeFile(target, output, { flag: overwrite ? "w" : "wx" });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "EEXIST") return `${outputPath} already exists — pass overwrite: true to replace it.`;
+    throw err;
+  }
+  return null;
+}
+
+/** Code fence language per format. */
+const FENCE: Record<(typeof EXPORT_FORMATS)[number], string> = {
+  graphml: "xml",
+  gexf: "xml",
+  dot: "dot",
+  json: "json",
+  mermaid: "mermaid",
+};
+
+export function registerExport(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_export",
+    "Export the graph, or the notes matching a filter, as GraphML, GEXF, Graphviz DOT, JSON node-link or a Mermaid flowchart, with folder, tags and degree on nodes and link counts and types on edges. Use to analyse the vault in Gephi/Cytoscape or paste a diagram into a note.",
+    schema,
+    async ({ format, includeUnresolved, outputPath, overwrite, ...filter }) => {
+      const exported = collectGraph({ filter: toNoteFilter(filter), includeUnresolved });
+      if (exported.nodes.length === 0) {
+        return { content: [{ type: "text" as const, text: "No notes match the filter — nothing to export." }] };
+      }
+
+      const output = formatGraph(exported, format);
+      const summary = `${exported.nodes.length} node${exported.nodes.length !== 1 ? "s" : ""}, ${exported.edges.length} edge${exported.edges.length !== 1 ? "s" : ""}`;
+      if (outputPath) {
+        const error = await writeExport(outputPath, output, overwrite);
+        const text = error ?? `Wrote ${format} export (${summary}) to ${outputPath} in the export directory.`;
+        return { content: [{ type: "text" as const, text }] };
+      }
+
+      const text = `${format} export (${summary}):\n\n\`\`\`${FENCE[format]}\n${output}\`\`\``;
+      return { content: [{ type: "text" as const, text }] };
+    }
+  );
+}
@@ -0,0 +1,24 @@
+import { z } from "zod";
+import type { NoteFilter } from "../graph.js";
+
+/** Note filter parameters shared by the traversal tools. */
+export const noteFilterSchema = {
+  folders: z.array(z.string()).optional().describe("Only visit notes in these folders (subfolders included)"),
+  excludeFolders: z.array(z.string()).optional().describe("Skip notes in these folders, e.g. [\"Daily\"]"),
+  tags: z.array(z.string()).optional().describe("Only visit notes with at least one of these tags (nested tags included)"),
+  excludeTags: z.array(z.string()).optional().describe("Skip notes with any of these tags"),
+  namePattern: z.string().optional().describe("Only visit notes whose name matches this regex (case-insensitive)"),
+  excludeNamePattern: z.string().optional().describe("Skip notes whose name matches this regex, e.g. \"^\\\\d{4}-\\\\d{2}-\\\\d{2}$\" for daily notes"),
+};
+
+export function toNoteFilter(args: {
+  folders?: string[];
+  excludeFolders?: string[];
+  tags?: string[];
+  excludeTags?: string[];
+  namePattern?: string;
+  excludeNamePattern?: string;
+}): NoteFilter {
+  const { folders, excludeFolders, tags, excludeTags, namePattern, excludeNamePattern } = args;
+  return { folders, excludeFolders, tags, excludeTags, namePattern, excludeNamePattern };
+}
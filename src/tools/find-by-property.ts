@@ -0,0 +1,49 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { compilePropertyExpression, findNotesByProperty } from "../property-filter.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  where: z.string().describe(
+    "Property expression, e.g. \"status = active AND type = project\". Operators: = != > >= < <= contains exists; combine with AND, OR, NOT and parentheses; quote values with spaces"
+  ),
+  limit: z.number().min(1).max(500).default(100).describe("Maximum number of notes to return"),
+};
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return value.map(formatValue).join(", ");
+  if (value !== null && typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function registerFindByProperty(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_find_by_property",
+    "Find notes by frontmatter properties, e.g. \"status = active AND type = project\" or \"due < 2025-01-01\". Use to select notes by metadata — \"which projects are active?\"",
+    schema,
+    async ({ where, limit }) => {
+      let expression;
+      try {
+        expression = compilePropertyExpression(where);
+      } catch (err) {
+        return { content: [{ type: "text" as const, text: `Property expression error: ${(err as Error).message}` }] };
+      }
+      const notes = findNotesByProperty(expression);
+      if (notes.length === 0) {
+        return { content: [{ type: "text" as const, text: `No notes match ${where}.` }] };
+      }
+
+      let text = `${notes.length} note${notes.length !== 1 ? "s" : ""} matching ${where}:\n\n`;
+      for (const note of notes.slice(0, limit)) {
+        const shown = Object.keys(note.properties)
+          .filter((k) => expression.keys.some((key) => key.toLowerCase() === k.toLowerCase()))
+          .map((k) => `${k}: ${formatValue(note.properties[k])}`);
+        text += `- ${note.name} (${note.path})${shown.length > 0 ? ` — ${shown.join("; ")}` : ""}\n`;
+      }
+      if (notes.length > limit) text += `\n...and ${notes.length - limit} more (raise limit to see them)\n`;
+
+      return { content: [{ type: "text" as const, text }] };
+    }
+  );
+}
@@ -1,53 +1,113 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getGraph, findPath } from "../graph.js";
+import { getGraph, findPaths, linksBetween } from "../graph.js";
+import { LINK_TYPES, type ParsedLink } from "../parser.js";
+import { resolveNoteArg } from "./resolve-note.js";
+import { noteFilterSchema, toNoteFilter } from "./filter-schema.js";
+import { vaultSchema } from "./vault-param.js";
+import { getVault, getVaults, inVault, type Vault } from "../vaults.js";
 
 const schema = {
-  from: z.string().describe("Starting note name"),
-  to: z.string().describe("Target note name"),
+  from: z.string().describe("Starting note name or vault path"),
+  to: z.string().describe("Target note name or vault path"),
+  direction: z.enum(["both", "outgoing", "incoming"]).default("both").describe("outgoing = follow links from → to; incoming = follow them backwards; both = undirected"),
+  includeUnresolved: z.boolean().default(false).describe("Allow the path to pass through unresolved link targets"),
+  linkTypes: z.array(z.enum(LINK_TYPES)).optional().describe("Only follow these link types (default: all)"),
+  properties: z.array(z.string()).optional().describe("Only follow links written as these frontmatter properties, e.g. [\"up\", \"parent\"] to walk a hierarchy"),
+  preferStrong: z.boolean().default(false).describe("Prefer routes over notes that link each other many times, even if they take more hops"),
+  ...noteFilterSchema,
+  maxHops: z.number().min(1).max(20).optional().describe("Give up on paths longer than this"),
+  limit: z.number().min(1).max(20).default(1).describe("How many equally short paths to return (ignored with preferStrong)"),
+  vault: vaultSchema.vault.describe("Name of the vault (default: every vault that has both notes)"),
 };
 
+type PathArgs = Omit<z.objectOutputType<typeof schema, z.ZodTypeAny>, "vault">;
+
+/** "2 wikilink, 1 embed #Setup", or "1 wikilink (up)" for a frontmatter property */
+function describeLinks(links: ParsedLink[]): string {
+  const counts = new Map<string, number>();
+  for (const l of links) {
+    const label = l.property ? `${l.type} (${l.property})` : l.type;
+    counts.set(label, (counts.get(label) || 0) + 1);
+  }
+  const anchors = [...new Set(links.map((l) => l.anchor).filter(Boolean))];
+  const summary = [...counts].map(([label, n]) => `${n} ${label}`).join(", ");
+  return anchors.length > 0 ? `${summary} ${anchors.join(" ")}` : summary;
+}
+
+/** Paths between two notes in the current vault, as text. */
+function describePaths({ from, to, direction, includeUnresolved, linkTypes, properties, preferStrong, maxHops, limit, ...filter }: PathArgs): string {
+  const graph = getGraph();
+
+  const resolvedFrom = resolveNoteArg(from);
+  if ("error" in resolvedFrom) return resolvedFrom.error;
+  const resolvedTo = resolveNoteArg(to);
+  if ("error" in resolvedTo) return resolvedTo.error;
+
+  const paths = findPaths(resolvedFrom.path, resolvedTo.path, {
+    direction,
+    includeUnresolved,
+    linkTypes,
+    properties,
+    preferStrong,
+    filter: toNoteFilter(filter),
+    maxHops,
+    limit,
+  });
+
+  if (paths.length === 0) {
+    return `No path found between "${resolvedFrom.path}" and "${resolvedTo.path}" with these settings. They may be in disconnected parts of the graph.`;
+  }
+
+  const describePath = (path: string[]) =>
+    path.map((p, i) => {
+      const node = graph.nodes.get(p);
+      const label = node?.unresolved ? `${node.name} (unresolved)` : `${node?.name || "?"} (${p})`;
+      if (i === 0) return label;
+      const { forward, backward } = linksBetween(path[i - 1], p);
+      const parts = [];
+      if (forward.length > 0) parts.push(`→ ${describeLinks(forward)}`);
+      if (backward.length > 0) parts.push(`← ${describeLinks(backward)}`);
+      return `[${parts.join("; ")}] ${label}`;
+    }).join("\n  — ");
+
+  const hops = paths[0].length - 1;
+  const title = paths.length > 1 ? `${paths.length} shortest paths` : "Shortest path";
+  return `${title} (${hops} hop${hops !== 1 ? "s" : ""}):\n\n${paths.map(describePath).join("\n\n")}`;
+}
+
+/** Vaults where a note name or path resolves. */
+function vaultsWith(vaults: Vault[], query: string): Vault[] {
+  return vaults.filter((v) => inVault(v, () => !("error" in resolveNoteArg(query))));
+}
+
 export function registerFindPath(server: McpServer) {
   server.tool(
     "graph_find_path",
-    "Find the shortest path between two notes via wikilinks. Use to discover connections — \"how does A relate to B?\"",
+    "Find the shortest path between two notes via wikilinks. Use to discover connections — \"how does A relate to B?\" With several vaults, searches every vault that has both notes.",
     schema,
-    async ({ from, to }) => {
-      const graph = getGraph();
-
-      // Case-insensitive name resolution
-      function resolve(name: string): string | null {
-        if (graph.nodes.has(name)) return name;
-        const match = [...graph.nodes.keys()].find(
-          (k) => k.toLowerCase() === name.toLowerCase()
-        );
-        return match || null;
-      }
-
-      const resolvedFrom = resolve(from);
-      const resolvedTo = resolve(to);
-
-      if (!resolvedFrom) {
-        return { content: [{ type: "text" as const, text: `Note "${from}" not found in graph.` }] };
-      }
-      if (!resolvedTo) {
-        return { content: [{ type: "text" as const, text: `Note "${to}" not found in graph.` }] };
+    async ({ vault, ...args }) => {
+      const vaults = vault === undefined ? getVaults() : [getVault(vault)];
+      if (vaults.length === 1) {
+        return { content: [{ type: "text" as const, text: inVault(vaults[0], () => describePaths(args)) }] };
       }
 
-      const path = findPath(resolvedFrom, resolvedTo);
+      // Paths never cross vaults: try each vault that has both notes
+      const withFrom = vaultsWith(vaults, args.from);
+      const withTo = vaultsWith(vaults, args.to);
+      const both = withFrom.filter((v) => withTo.includes(v));
 
-      if (!path) {
-        return {
-          content: [{ type: "text" as const, text: `No path found between "${resolvedFrom}" and "${resolvedTo}". They are in disconnected parts of the graph.` }],
-        };
+      if (both.length === 0) {
+        if (withFrom.length === 0 && withTo.length === 0) {
+          // Not found anywhere — let the default vault explain, with suggestions
+          return { content: [{ type: "text" as const, text: inVault(vaults[0], () => describePaths(args)) }] };
+        }
+        const where = (found: Vault[]) => found.length > 0 ? `found in ${found.map((v) => v.config.name).join(", ")}` : "not found in any vault";
+        const text = `No vault has both notes, and paths stay within one vault:\n- "${args.from}": ${where(withFrom)}\n- "${args.to}": ${where(withTo)}`;
+        return { content: [{ type: "text" as const, text }] };
       }
 
-      const pathWithDetails = path.map((name) => {
-        const node = graph.nodes.get(name);
-        return `${name} (${node?.path || "?"})`;
-      });
-
-      const text = `Shortest path (${path.length - 1} hop${path.length - 1 !== 1 ? "s" : ""}):\n\n${pathWithDetails.join("\n  → ")}`;
+      const text = both.map((v) => `[${v.config.name}] ${inVault(v, () => describePaths(args))}`).join("\n\n");
       return { content: [{ type: "text" as const, text }] };
     }
   );
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getLinkContexts } from "../graph.js";
+import { LINK_TYPES } from "../parser.js";
+import { resolveNoteArg } from "./resolve-note.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  note: z.string().describe("Note name, vault path or alias"),
+  direction: z.enum(["incoming", "outgoing"]).default("incoming").describe("incoming = notes linking to this note (backlinks); outgoing = links this note makes"),
+  linkTypes: z.array(z.enum(LINK_TYPES)).optional().describe("Only include these link types (default: all)"),
+  limit: z.number().min(1).max(200).default(50).describe("Maximum number of links to return"),
+};
+
+export function registerGetBacklinks(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_get_backlinks",
+    "List the links into a note (or out of it) with the surrounding paragraph and heading of each. Use to learn why notes link — \"what links to X, and in what context?\"",
+    schema,
+    async ({ note, direction, linkTypes, limit }) => {
+      const resolved = resolveNoteArg(note);
+      if ("error" in resolved) {
+        return { content: [{ type: "text" as const, text: resolved.error }] };
+      }
+
+      const groups = getLinkContexts(resolved.path, direction, linkTypes);
+      const total = groups.reduce((sum, g) => sum + g.links.length, 0);
+      if (total === 0) {
+        const what = direction === "incoming" ? "No notes link to" : "No links found in";
+        return { content: [{ type: "text" as const, text: `${what} "${resolved.path}".` }] };
+      }
+
+      const heading = direction === "incoming" ? `Backlinks to "${resolved.path}"` : `Links from "${resolved.path}"`;
+      let text = `${heading} (${total} link${total !== 1 ? "s" : ""}, ${groups.length} note${groups.length !== 1 ? "s" : ""}):\n\n`;
+      let shown = 0;
+      for (const g of groups) {
+        if (shown >= limit) break;
+        text += g.unresolved ? `**${g.name}** (unresolved)\n` : `**${g.name}** (${g.path})\n`;
+        for (const link of g.links) {
+          if (shown >= limit) break;
+          // Incoming links are located in the other note; outgoing ones in this note
+          const where = [
+            `L${link.line}`,
+            link.heading ? `under "${link.heading}"` : "",
+            link.property ? `in property "${link.property}"` : "",
+            `[${link.type}${link.anchor ? ` ${link.anchor}` : ""}]`,
+          ]
+            .filter(Boolean)
+            .join(" ");
+          text += `  - ${where}: ${link.context}\n`;
+          shown++;
+        }
+        text += "\n";
+      }
+      if (shown < total) text += `...and ${total - shown} more (raise limit to see them)\n`;
+
+      return { content: [{ type: "text" as const, text }] };
+    }
+  );
+}
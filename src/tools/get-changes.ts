@@ -0,0 +1,63 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { formatVersion, getChanges, parseVersion } from "../history.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  since: z.string().optional().describe(
+    "Graph version as reported by this tool (e.g. \"m1x2k9a0-12\") or ISO timestamp (e.g. \"2025-06-01T09:00:00Z\"); changes after it are returned. Default: all retained history"
+  ),
+  limit: z.number().min(1).max(500).default(50).describe("Maximum entries to list per section"),
+};
+
+function parseSince(since: string): number | Date {
+  if (/^([0-9a-z]+-)?\d+$/i.test(since.trim())) return parseVersion(since);
+  const date = new Date(since);
+  if (isNaN(date.getTime())) throw new Error(`"${since}" is neither a graph version nor a timestamp`);
+  return date;
+}
+
+export function registerGetChanges(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_get_changes",
+    "What changed in the vault graph since a version or time: notes added, removed, renamed or edited, links added or removed, tags changed. Use to catch up on recent edits — \"what's new since I last looked?\"",
+    schema,
+    async ({ since, limit }) => {
+      let sinceValue: number | Date | undefined;
+      try {
+        sinceValue = since === undefined ? undefined : parseSince(since);
+      } catch (err) {
+        return { content: [{ type: "text" as const, text: (err as Error).message }] };
+      }
+      const changes = getChanges(sinceValue);
+
+      let text = `Graph version ${formatVersion(changes.toVersion)}.`;
+      if (changes.truncated) {
+        text += ` History only goes back to version ${formatVersion(changes.oldestVersion! - 1)}; older changes are not included.`;
+      }
+      if (changes.versions === 0) {
+        return { content: [{ type: "text" as const, text: `${text} No changes${since ? ` since ${since}` : " recorded yet"}.` }] };
+      }
+      text += ` Changes from version ${formatVersion(changes.fromVersion)} to ${formatVersion(changes.toVersion)} (${changes.versions} update${changes.versions !== 1 ? "s" : ""}):\n`;
+
+      const section = (title: string, lines: string[]) => {
+        if (lines.length === 0) return;
+        text += `\n**${title}** (${lines.length}):\n`;
+        for (const line of lines.slice(0, limit)) text += `- ${line}\n`;
+        if (lines.length > limit) text += `- ...and ${lines.length - limit} more\n`;
+      };
+      section("Notes added", changes.added);
+      section("Notes removed", changes.removed);
+      section("Notes renamed", changes.renamed.map((r) => `${r.from} → ${r.to}`));
+      section("Notes edited", changes.edited);
+      section("Links added", changes.linksAdded.map((l) => `${l.source} → ${l.target}`));
+      section("Links removed", changes.linksRemoved.map((l) => `${l.source} → ${l.target}`));
+      section("Tags changed", changes.tagsChanged.map((t) =>
+        [t.path, ...t.added.map((tag) => `+#${tag}`), ...t.removed.map((tag) => `-#${tag}`)].join(" ")
+      ));
+
+      return { content: [{ type: "text" as const, text }] };
+    }
+  );
+}
@@ -1,17 +1,61 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getClusters } from "../graph.js";
+import { getClusters, getGraph } from "../graph.js";
+import { getCommunities } from "../community.js";
+import { registerVaultTool } from "./vault-param.js";
 
 const schema = {
-  by: z.enum(["folder", "tag"]).default("folder").describe("Group notes by folder or tag"),
+  by: z.enum(["folder", "tag", "community"]).default("folder").describe("Group notes by folder, by tag, or into communities detected from the links themselves"),
+  limit: z.number().min(1).max(100).default(20).describe("Maximum number of communities to show (community mode only)"),
 };
 
+/** Render community detection results. */
+function describeCommunities(limit: number): string {
+  const report = getCommunities();
+  const graph = getGraph();
+  const name = (path: string) => graph.nodes.get(path)?.name || path;
+
+  if (report.communities.length === 0) {
+    return "No link communities found — the vault has too few links between notes.";
+  }
+
+  const shown = report.communities.slice(0, limit);
+  let text = `${report.communities.length} link communities (modularity ${report.modularity}, ${report.singletons} unclustered note${report.singletons !== 1 ? "s" : ""})`;
+  text += shown.length < report.communities.length ? `, showing largest ${shown.length}:\n\n` : ":\n\n";
+
+  for (const c of shown) {
+    text += `**Community ${c.id}** (${c.size} notes)\n`;
+    text += `  - Central: ${c.central.map((m) => `${name(m.path)} (${m.degree})`).join(", ")}\n`;
+    if (c.topTags.length > 0) text += `  - Tags: ${c.topTags.map((t) => `#${t.tag} (${t.count})`).join(", ")}\n`;
+    text += `  - Folders: ${c.topFolders.map((f) => `${f.folder} (${f.count})`).join(", ")}\n\n`;
+  }
+
+  const { components } = report;
+  text += `**Connected components:** ${components.count}`;
+  if (components.sizes.length > 0) text += ` — linked groups of ${components.sizes.slice(0, 10).join(", ")}${components.sizes.length > 10 ? ", ..." : ""} notes`;
+  text += `; ${components.isolated} isolated note${components.isolated !== 1 ? "s" : ""}\n\n`;
+
+  if (report.bridges.length > 0) {
+    text += "**Bridge notes** (linking several communities):\n";
+    for (const b of report.bridges) {
+      text += `  - ${name(b.path)} (${b.path}) — spans ${b.communities} communities, ${b.externalLinks} cross-community link${b.externalLinks !== 1 ? "s" : ""}\n`;
+    }
+  }
+
+  return text;
+}
+
 export function registerGetClusters(server: McpServer) {
-  server.tool(
+  registerVaultTool(
+    server,
     "graph_get_clusters",
-    "Group notes by folder or tag. Use for topic overview — \"what topics exist in the vault?\"",
+    "Group notes by folder, tag, or link communities (topic clusters emerging from the links). Use for topic overview — \"what topics exist in the vault?\"",
     schema,
-    async ({ by }) => {
+    async ({ by, limit }) => {
+      if (by === "community") {
+        return { content: [{ type: "text" as const, text: describeCommunities(limit) }] };
+      }
+
       const clusters = getClusters(by);
 
       if (clusters.length === 0) {
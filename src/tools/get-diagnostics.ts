@@ -0,0 +1,75 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getConfigPath } from "../config.js";
+import { getBuildStatus, getGraph } from "../graph.js";
+import { getVaultSource } from "../vault-source.js";
+import { currentVault } from "../vaults.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  limit: z.number().min(1).max(500).default(50).describe("Maximum number of failed paths to list"),
+};
+
+export function registerGetDiagnostics(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_get_diagnostics",
+    "Check the connection to the vault: whether it is reachable, whether the API key is accepted, how long the last refresh took, and which notes or folders could not be read and why. Use when results look incomplete or stale.",
+    schema,
+    async ({ limit }) => {
+      const { config } = currentVault();
+      const source = getVaultSource();
+      const connection = await source.checkConnection();
+      const status = getBuildStatus();
+      const rest = !config.path;
+
+      const lines = [
+        `Diagnostics for vault "${config.name}":`,
+        "",
+        `- Source: ${source.description}`,
+        `- Connectivity: ${connection.ok ? "OK" : "FAILED"} — ${connection.detail} (${connection.latencyMs}ms)`,
+      ];
+      if (rest) {
+        const auth = connection.authenticated === undefined
+          ? "unknown (server not reachable)"
+          : connection.authenticated ? "API key accepted" : "API key rejected — check OBSIDIAN_API_KEY";
+        const tls = !config.host.startsWith("https:") ? "plain HTTP"
+          : config.insecureTls ? "certificate not verified"
+          : config.caCert ? `trusting ${config.caCert}` : "system certificates";
+        lines.push(
+          `- Auth: ${auth}`,
+          `- Client: timeout ${config.timeout}ms, ${config.retries} retries, ${config.concurrency} concurrent reads, TLS: ${tls}`,
+        );
+      } else {
+        lines.push(`- Reads: ${config.concurrency} concurrent`);
+      }
+
+      const result = status.lastResult;
+      if (result && status.lastSuccess) {
+        lines.push(
+          `- Last refresh: ${status.lastSuccess.toISOString()}, took ${result.durationMs}ms (+${result.added.length} ~${result.changed.length} -${result.removed.length}, ${result.unchanged} unchanged, ${result.excluded} excluded by config)`,
+        );
+      } else {
+        lines.push("- Last refresh: none completed yet");
+      }
+      if (status.lastError && status.lastAttempt) {
+        lines.push(`- Last refresh failed: ${status.lastAttempt.toISOString()} — ${status.lastError}`);
+      }
+      lines.push(
+        `- Config: ${getConfigPath() ?? "none (every note is included)"}`,
+        `- Notes in graph: ${getGraph().noteStates.size}, graph version ${getGraph().version}`,
+      );
+
+      const failed = result?.failed ?? [];
+      if (failed.length > 0) {
+        lines.push("", `Failed paths in the last refresh (${failed.length}; the graph keeps what it had for them):`);
+        for (const f of failed.slice(0, limit)) lines.push(`  - ${f.path}: ${f.reason}`);
+        if (failed.length > limit) lines.push(`  - ...and ${failed.length - limit} more`);
+      } else if (result) {
+        lines.push("", "No failed paths in the last refresh.");
+      }
+
+      return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+    }
+  );
+}
@@ -1,28 +1,38 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getHubs } from "../graph.js";
+import { CENTRALITY_METRICS, getCentrality } from "../centrality.js";
+import { registerVaultTool } from "./vault-param.js";
 
 const schema = {
   topN: z.number().min(1).max(50).default(10).describe("Number of top hubs to return"),
+  metric: z.enum(CENTRALITY_METRICS).default("degree").describe(
+    "Ranking: degree (in + out links), in-degree (how often linked), pagerank (linked by important notes), betweenness (sits on paths between others), hub (links to many authorities), authority (linked by many hubs)"
+  ),
+  excludeFolders: z.array(z.string()).optional().describe("Leave notes in these folders out of the calculation, e.g. [\"Daily\"]"),
 };
 
+function formatScore(score: number): string {
+  return Number.isInteger(score) ? String(score) : score.toPrecision(3);
+}
+
 export function registerGetHubs(server: McpServer) {
-  server.tool(
+  registerVaultTool(
+    server,
     "graph_get_hubs",
-    "Get the most connected notes in the vault. Use to find central knowledge — \"what are the key topics?\"",
+    "Get the most central notes in the vault by degree, PageRank, betweenness or HITS scores. Use to find central knowledge — \"what are the key topics?\"",
     schema,
-    async ({ topN }) => {
-      const hubs = getHubs(topN);
+    async ({ topN, metric, excludeFolders }) => {
+      const hubs = getCentrality(metric, { excludeFolders }).slice(0, topN);
 
       if (hubs.length === 0) {
         return { content: [{ type: "text" as const, text: "No notes found in graph." }] };
       }
 
-      let text = `Top ${Math.min(topN, hubs.length)} hub notes:\n\n`;
-      text += "| # | Note | Path | Out | In | Total |\n";
-      text += "|---|------|------|-----|-----|-------|\n";
+      let text = `Top ${hubs.length} hub notes by ${metric}:\n\n`;
+      text += "| # | Note | Path | Score | Out | In |\n";
+      text += "|---|------|------|-------|-----|-----|\n";
       hubs.forEach((h, i) => {
-        text += `| ${i + 1} | ${h.name} | ${h.path} | ${h.outgoing} | ${h.incoming} | ${h.total} |\n`;
+        text += `| ${i + 1} | ${h.name} | ${h.path} | ${formatScore(h.score)} | ${h.outgoing} | ${h.incoming} |\n`;
       });
 
       return { content: [{ type: "text" as const, text }] };
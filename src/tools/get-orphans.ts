@@ -1,8 +1,10 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { getOrphans } from "../graph.js";
+import { registerVaultTool } from "./vault-param.js";
 
 export function registerGetOrphans(server: McpServer) {
-  server.tool(
+  registerVaultTool(
+    server,
     "graph_get_orphans",
     "Get notes with zero links (neither linking to nor linked from any other note). Use to find gaps — \"what's disconnected?\"",
     {},
@@ -1,27 +1,59 @@
+import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { getStats } from "../graph.js";
+import { getVault, getVaults, inVault } from "../vaults.js";
+
+const schema = {
+  vault: z.string().optional().describe("Name of the vault (default: every configured vault, with totals)"),
+};
+
+function describeStats(stats: ReturnType<typeof getStats>): string[] {
+  return [
+    `- Total notes: ${stats.totalNotes}`,
+    `- Total links: ${stats.totalLinks}`,
+    `- Unique tags: ${stats.totalTags}`,
+    `- Folders: ${stats.folders}`,
+    `- Orphan notes: ${stats.orphanCount}`,
+    `- Unresolved links: ${stats.unresolvedLinks} (to ${stats.unresolvedTargets} missing note${stats.unresolvedTargets !== 1 ? "s" : ""})`,
+    `- Avg links/note: ${stats.avgLinksPerNote}`,
+    `- Last refresh: ${stats.lastRefresh}`,
+  ];
+}
 
 export function registerGetStats(server: McpServer) {
   server.tool(
     "graph_get_stats",
-    "Get vault-wide statistics: note count, link count, tags, orphans, etc. Quick status check.",
-    {},
-    async () => {
-      const stats = getStats();
+    "Get vault-wide statistics: note count, link count, tags, orphans, etc. Quick status check. With several vaults, reports each one plus totals.",
+    schema,
+    async ({ vault }) => {
+      const vaults = vault === undefined ? getVaults() : [getVault(vault)];
+
+      if (vaults.length === 1) {
+        const stats = inVault(vaults[0], () => getStats());
+        const text = ["Vault Statistics:", "", ...describeStats(stats)].join("\n");
+        return { content: [{ type: "text" as const, text }] };
+      }
 
-      const text = [
-        "Vault Statistics:",
+      const lines = [`Vault Statistics (${vaults.length} vaults):`];
+      const totals = { notes: 0, links: 0, orphans: 0, unresolved: 0 };
+      for (const v of vaults) {
+        const stats = inVault(v, () => getStats());
+        lines.push("", `${v.config.name}:`, ...describeStats(stats));
+        totals.notes += stats.totalNotes;
+        totals.links += stats.totalLinks;
+        totals.orphans += stats.orphanCount;
+        totals.unresolved += stats.unresolvedLinks;
+      }
+      lines.push(
         "",
-        `- Total notes: ${stats.totalNotes}`,
-        `- Total links: ${stats.totalLinks}`,
-        `- Unique tags: ${stats.totalTags}`,
-        `- Folders: ${stats.folders}`,
-        `- Orphan notes: ${stats.orphanCount}`,
-        `- Avg links/note: ${stats.avgLinksPerNote}`,
-        `- Last refresh: ${stats.lastRefresh}`,
-      ].join("\n");
+        "All vaults:",
+        `- Total notes: ${totals.notes}`,
+        `- Total links: ${totals.links}`,
+        `- Orphan notes: ${totals.orphans}`,
+        `- Unresolved links: ${totals.unresolved}`,
+      );
 
-      return { content: [{ type: "text" as const, text }] };
+      return { content: [{ type: "text" as const, text: lines.join("\n") }] };
     }
   );
 }
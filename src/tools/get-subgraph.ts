@@ -0,0 +1,66 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { collectNeighborhood, formatGraph } from "../export.js";
+import { getGraph } from "../graph.js";
+import { LINK_TYPES } from "../parser.js";
+import { noteFilterSchema, toNoteFilter } from "./filter-schema.js";
+import { resolveNoteArg } from "./resolve-note.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  notes: z.array(z.string()).min(1).max(10).describe("Seed notes (names, vault paths or aliases)"),
+  depth: z.number().min(1).max(5).default(1).describe("How many hops around the seeds to include (1-5)"),
+  direction: z.enum(["both", "outgoing", "incoming"]).default("both").describe("outgoing = what the seeds link to; incoming = what links to them; both = undirected"),
+  includeUnresolved: z.boolean().default(false).describe("Include unresolved link targets (notes that don't exist yet)"),
+  linkTypes: z.array(z.enum(LINK_TYPES)).optional().describe("Only follow, and show, these link types (default: all)"),
+  ...noteFilterSchema,
+  maxNodes: z.number().min(2).max(200).default(30).describe("Node budget; larger neighbourhoods keep their most central notes"),
+};
+
+export function registerGetSubgraph(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_get_subgraph",
+    "Get the neighbourhood of one or more notes as a subgraph — the notes within N hops and the links among them of the types followed — rendered as a Mermaid diagram and an adjacency list. Use to see the shape of a topic — \"how do the notes around X connect?\"",
+    schema,
+    async ({ notes, depth, direction, includeUnresolved, linkTypes, maxNodes, ...filter }) => {
+      const seeds: string[] = [];
+      for (const note of notes) {
+        const resolved = resolveNoteArg(note);
+        if ("error" in resolved) {
+          return { content: [{ type: "text" as const, text: resolved.error }] };
+        }
+        if (!seeds.includes(resolved.path)) seeds.push(resolved.path);
+      }
+
+      const subgraph = collectNeighborhood(seeds, depth, {
+        direction,
+        includeUnresolved,
+        linkTypes,
+        filter: toNoteFilter(filter),
+        maxNodes,
+      });
+      const graph = getGraph();
+      const label = (path: string) => {
+        const node = graph.nodes.get(path)!;
+        return node.unresolved ? `${node.name} (unresolved)` : node.name;
+      };
+
+      const seedNames = seeds.map((s) => `"${s}"`).join(", ");
+      let text = `Subgraph around ${seedNames} (depth ${depth}): ${subgraph.nodes.length} notes, ${subgraph.edges.length} links`;
+      text += subgraph.pruned > 0 ? ` — ${subgraph.pruned} less central notes pruned to stay within ${maxNodes}.\n\n` : ".\n\n";
+      text += "```mermaid\n" + formatGraph(subgraph, "mermaid", { highlight: seeds }) + "```\n\n";
+
+      text += "**Adjacency:**\n";
+      for (const node of subgraph.nodes) {
+        const out = subgraph.edges.filter((e) => e.source === node.id && e.target !== node.id).map((e) => label(e.target));
+        const inc = subgraph.edges.filter((e) => e.target === node.id && e.source !== node.id).map((e) => label(e.source));
+        const parts = [out.length > 0 ? `→ ${out.join(", ")}` : "", inc.length > 0 ? `← ${inc.join(", ")}` : ""].filter(Boolean);
+        const seed = seeds.includes(node.id) ? " (seed)" : "";
+        text += `- ${label(node.id)}${seed} (${node.id})${parts.length > 0 ? `: ${parts.join("; ")}` : ""}\n`;
+      }
+
+      return { content: [{ type: "text" as const, text }] };
+    }
+  );
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getUnresolved } from "../graph.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  topN: z.number().min(1).max(200).default(50).describe("Number of missing targets to return"),
+};
+
+export function registerGetUnresolved(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_get_unresolved",
+    "List wikilink targets that have no note yet, with how many notes link to each and which. Use to find notes worth writing — \"what's missing?\"",
+    schema,
+    async ({ topN }) => {
+      const unresolved = getUnresolved();
+
+      if (unresolved.length === 0) {
+        return { content: [{ type: "text" as const, text: "No unresolved links — every wikilink points at an existing note." }] };
+      }
+
+      const shown = unresolved.slice(0, topN);
+      let text = `${unresolved.length} unresolved link target${unresolved.length !== 1 ? "s" : ""}`;
+      text += shown.length < unresolved.length ? ` (showing top ${shown.length}):\n\n` : ":\n\n";
+      for (const u of shown) {
+        text += `**${u.name}** (${u.count} link${u.count !== 1 ? "s" : ""}):\n`;
+        for (const source of u.sources) {
+          text += `  - ${source}\n`;
+        }
+        text += "\n";
+      }
+
+      return { content: [{ type: "text" as const, text }] };
+    }
+  );
+}
@@ -1,33 +1,45 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { getGraph, queryRelated } from "../graph.js";
+import { queryRelated } from "../graph.js";
+import { LINK_TYPES } from "../parser.js";
+import { resolveNoteArg } from "./resolve-note.js";
+import { noteFilterSchema, toNoteFilter } from "./filter-schema.js";
+import { registerVaultTool } from "./vault-param.js";
 
 const schema = {
-  note: z.string().describe("Name of the note (without .md extension)"),
-  depth: z.number().min(1).max(3).default(1).describe("How many hops to traverse (1-3)"),
+  note: z.string().describe("Note name (without .md extension) or vault path"),
+  depth: z.number().min(1).max(10).default(1).describe("How many hops to traverse (1-10)"),
+  direction: z.enum(["both", "outgoing", "incoming"]).default("both").describe("outgoing = what this note links to (depends on); incoming = what links to it; both = undirected"),
+  includeUnresolved: z.boolean().default(false).describe("Include unresolved link targets (notes that don't exist yet)"),
+  linkTypes: z.array(z.enum(LINK_TYPES)).optional().describe("Only follow these link types, e.g. [\"wikilink\", \"markdown\"] to ignore embeds (default: all)"),
+  properties: z.array(z.string()).optional().describe("Only follow links written as these frontmatter properties, e.g. [\"up\", \"parent\"] to walk a hierarchy"),
+  ...noteFilterSchema,
+  limit: z.number().min(1).max(500).default(100).describe("Maximum number of notes to return (closest first)"),
 };
 
 export function registerQueryRelated(server: McpServer) {
-  server.tool(
+  registerVaultTool(
+    server,
     "graph_query_related",
     "Find notes within N hops of a given note via wikilinks. Use for context expansion — \"what's related to X?\"",
     schema,
-    async ({ note, depth }) => {
-      const graph = getGraph();
-      if (!graph.nodes.has(note)) {
-        // Try case-insensitive match
-        const match = [...graph.nodes.keys()].find(
-          (k) => k.toLowerCase() === note.toLowerCase()
-        );
-        if (!match) {
-          return {
-            content: [{ type: "text" as const, text: `Note "${note}" not found in graph. Available notes: ${[...graph.nodes.keys()].slice(0, 20).join(", ")}${graph.nodes.size > 20 ? "..." : ""}` }],
-          };
-        }
-        note = match;
+    async ({ note, depth, direction, includeUnresolved, linkTypes, properties, limit, ...filter }) => {
+      const resolved = resolveNoteArg(note);
+      if ("error" in resolved) {
+        return { content: [{ type: "text" as const, text: resolved.error }] };
       }
+      note = resolved.path;
 
-      const related = queryRelated(note, depth);
+      // One more than asked for, to tell whether anything was left out
+      const found = queryRelated(note, depth, {
+        direction,
+        includeUnresolved,
+        linkTypes,
+        properties,
+        filter: toNoteFilter(filter),
+        limit: limit + 1,
+      });
+      const related = found.slice(0, limit);
       if (related.length === 0) {
         return {
           content: [{ type: "text" as const, text: `No related notes found within ${depth} hop(s) of "${note}".` }],
@@ -40,14 +52,16 @@ export function registerQueryRelated(server: McpServer) {
         grouped.get(r.distance)!.push(r);
       }
 
-      let text = `Notes related to "${note}" (depth ${depth}):\n\n`;
+      const via = direction === "both" ? "" : `, ${direction} links only`;
+      let text = `Notes related to "${note}" (depth ${depth}${via}):\n\n`;
       for (const [dist, notes] of [...grouped.entries()].sort((a, b) => a[0] - b[0])) {
         text += `**${dist} hop${dist > 1 ? "s" : ""}:**\n`;
         for (const n of notes) {
-          text += `- ${n.name} (${n.path})\n`;
+          text += n.unresolved ? `- ${n.name} (unresolved)\n` : `- ${n.name} (${n.path})\n`;
         }
         text += "\n";
       }
+      if (found.length > limit) text += `Stopped at ${limit} notes — raise limit or narrow the filters to see more.\n`;
 
       return { content: [{ type: "text" as const, text }] };
     }
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { parseQuery, runQuery } from "../query.js";
+import { resolveNoteArg } from "./resolve-note.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  query: z.string().describe(
+    "Query, e.g. FROM \"Kubernetes\" DEPTH 2 WHERE folder = Projects AND tag = infra AND in_degree = 0 SORT BY degree DESC LIMIT 20 RETURN name, path, tags. " +
+    "Clauses (all optional, any order): FROM note, DEPTH n, DIRECTION both|outgoing|incoming, WHERE condition, SORT BY field [ASC|DESC], LIMIT n, RETURN fields. " +
+    "Fields: name, path, folder, tag(s), aliases, degree, in_degree, out_degree, distance, pagerank, or any frontmatter property"
+  ),
+};
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(formatCell).join(", ");
+  if (typeof value === "number" && !Number.isInteger(value)) return value.toPrecision(3);
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value).replace(/\|/g, "\\|");
+}
+
+export function registerQuery(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_query",
+    "Select notes with a small query language: filter by folder, tag, property and link counts, optionally within N hops of a note, then sort, limit and pick fields. Use for multi-condition questions in one call — \"project notes tagged #infra within 2 hops of Kubernetes that nobody links to\"",
+    schema,
+    async ({ query }) => {
+      let parsed;
+      try {
+        parsed = parseQuery(query);
+      } catch (err) {
+        return { content: [{ type: "text" as const, text: `Query error: ${(err as Error).message}` }] };
+      }
+
+      let startPath: string | undefined;
+      if (parsed.from) {
+        const resolved = resolveNoteArg(parsed.from.note);
+        if ("error" in resolved) {
+          return { content: [{ type: "text" as const, text: resolved.error }] };
+        }
+        startPath = resolved.path;
+      }
+
+      const result = runQuery(parsed, startPath);
+      if (result.rows.length === 0) {
+        return { content: [{ type: "text" as const, text: "No notes match the query." }] };
+      }
+
+      const shown = result.rows.length < result.total ? `${result.rows.length} of ${result.total}` : `${result.total}`;
+      let text = `${shown} note${result.total !== 1 ? "s" : ""}:\n\n`;
+      text += `| ${result.fields.join(" | ")} |\n`;
+      text += `|${result.fields.map(() => "---").join("|")}|\n`;
+      for (const row of result.rows) {
+        text += `| ${result.fields.map((f) => formatCell(row[f])).join(" | ")} |\n`;
+      }
+
+      return { content: [{ type: "text" as const, text }] };
+    }
+  );
+}
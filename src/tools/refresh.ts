@@ -1,26 +1,51 @@
+import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { buildGraph, getStats } from "../graph.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  full: z.boolean().default(false).describe("Re-read and re-parse every note instead of only changed ones"),
+};
+
+/** List up to `limit` paths, noting how many were left out. */
+function listPaths(paths: string[], limit = 20): string {
+  const lines = paths.slice(0, limit).map((p) => `  - ${p}`);
+  if (paths.length > limit) lines.push(`  - ...and ${paths.length - limit} more`);
+  return lines.join("\n");
+}
 
 export function registerRefresh(server: McpServer) {
-  server.tool(
+  registerVaultTool(
+    server,
     "graph_refresh",
-    "Manually trigger a graph rebuild from the vault. Use after batch changes to notes.",
-    {},
-    async () => {
-      const startTime = Date.now();
-      await buildGraph();
-      const elapsed = Date.now() - startTime;
+    "Refresh the graph from the vault, re-parsing only notes that were added, changed or deleted. Use after batch changes to notes.",
+    schema,
+    async ({ full }) => {
+      const result = await buildGraph({ full });
       const stats = getStats();
 
-      const text = [
-        `Graph refreshed in ${elapsed}ms.`,
+      const lines = [
+        `Graph ${result.full ? "rebuilt" : "refreshed"} in ${result.durationMs}ms.`,
+        "",
+        `- Added: ${result.added.length}`,
+        `- Changed: ${result.changed.length}`,
+        `- Removed: ${result.removed.length}`,
+        `- Unchanged: ${result.unchanged}`,
+        ...(result.excluded > 0 ? [`- Excluded by config: ${result.excluded}`] : []),
+        ...(result.failed.length > 0 ? [`- Failed: ${result.failed.length} (kept as they were)`] : []),
         "",
         `- Notes: ${stats.totalNotes}`,
         `- Links: ${stats.totalLinks}`,
         `- Tags: ${stats.totalTags}`,
-      ].join("\n");
+      ];
+      if (!result.full) {
+        if (result.added.length > 0) lines.push("", "Added:", listPaths(result.added));
+        if (result.changed.length > 0) lines.push("", "Changed:", listPaths(result.changed));
+        if (result.removed.length > 0) lines.push("", "Removed:", listPaths(result.removed));
+      }
+      if (result.failed.length > 0) lines.push("", "Failed:", listPaths(result.failed.map((f) => `${f.path} — ${f.reason}`)));
 
-      return { content: [{ type: "text" as const, text }] };
+      return { content: [{ type: "text" as const, text: lines.join("\n") }] };
     }
   );
 }
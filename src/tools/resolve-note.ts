@@ -0,0 +1,26 @@
+import { getResolver, nameFromPath } from "../graph.js";
+
+/**
+ * Resolve a note name, vault path or alias given as a tool argument.
+ * Returns the note's path, or a message explaining why it could not be resolved.
+ */
+export function resolveNoteArg(query: string): { path: string } | { error: string } {
+  const result = getResolver().lookup(query);
+  switch (result.status) {
+    case "found":
+      return { path: result.path };
+    case "ambiguous":
+      return {
+        error: `Note "${query}" is ambiguous — ${result.candidates.length} notes match:\n${result.candidates.map((c) => `- ${c}`).join("\n")}\n\nPass the vault path to pick one.`,
+      };
+    case "missing": {
+      if (result.suggestions.length === 0) {
+        return { error: `Note "${query}" not found in graph.` };
+      }
+      const suggestions = result.suggestions.map((s) =>
+        s.matched === nameFromPath(s.path) ? `- ${s.path}` : `- ${s.path} (alias "${s.matched}")`
+      );
+      return { error: `Note "${query}" not found in graph. Did you mean:\n${suggestions.join("\n")}` };
+    }
+  }
+}
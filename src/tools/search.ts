@@ -0,0 +1,53 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { search } from "../search.js";
+import { noteFilterSchema, toNoteFilter } from "./filter-schema.js";
+import { resolveNoteArg } from "./resolve-note.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  query: z.string().describe("Words to search for in note names, aliases and text"),
+  rankBy: z.enum(["relevance", "centrality", "proximity"]).default("relevance").describe(
+    "relevance = text match only (BM25); centrality = blend in PageRank; proximity = blend in closeness to the anchor note"
+  ),
+  anchor: z.string().optional().describe("Note name, vault path or alias to rank closeness to (required for rankBy proximity)"),
+  graphWeight: z.number().min(0).max(1).default(0.3).describe("Share of the score taken by centrality or proximity (0-1)"),
+  ...noteFilterSchema,
+  limit: z.number().min(1).max(50).default(10).describe("Maximum number of results"),
+};
+
+export function registerSearch(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_search",
+    "Full-text search over note names, aliases and content, optionally boosting central notes or notes close to an anchor note. Returns matching lines as snippets. Use to find notes by what they say — \"which notes mention X?\"",
+    schema,
+    async (args) => {
+      const { query, rankBy, graphWeight, limit } = args;
+      let anchor: string | undefined;
+      if (args.anchor) {
+        const resolved = resolveNoteArg(args.anchor);
+        if ("error" in resolved) {
+          return { content: [{ type: "text" as const, text: resolved.error }] };
+        }
+        anchor = resolved.path;
+      } else if (rankBy === "proximity") {
+        return { content: [{ type: "text" as const, text: "rankBy proximity needs an anchor note." }] };
+      }
+
+      const hits = search(query, { rankBy, anchor, graphWeight, limit, filter: toNoteFilter(args) });
+      if (hits.length === 0) {
+        return { content: [{ type: "text" as const, text: `No notes match "${query}".` }] };
+      }
+
+      const ranking = rankBy === "relevance" ? "relevance" : `relevance + ${rankBy}${rankBy === "proximity" ? ` to "${anchor}"` : ""}`;
+      let text = `${hits.length} note${hits.length !== 1 ? "s" : ""} matching "${query}" (by ${ranking}):\n\n`;
+      hits.forEach((hit, i) => {
+        text += `${i + 1}. **${hit.name}** (${hit.path}) — score ${hit.score.toFixed(3)}, matched: ${hit.matchedTerms.join(", ")}\n`;
+        for (const snippet of hit.snippets) text += `   > ${snippet}\n`;
+      });
+
+      return { content: [{ type: "text" as const, text }] };
+    }
+  );
+}
@@ -0,0 +1,32 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { setProperties } from "../note-writer.js";
+import { resolveNoteArg } from "./resolve-note.js";
+import { describeWrite, dryRunSchema } from "./write-result.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  note: z.string().describe("Note name, vault path or alias"),
+  tags: z.array(z.string()).optional().describe("Tags to add (existing tags are kept)"),
+  properties: z.record(z.unknown()).optional().describe("Frontmatter properties to set, e.g. {\"status\": \"done\"}"),
+  overwrite: z.boolean().default(false).describe("Replace properties that already have a different value (otherwise the call fails)"),
+  ...dryRunSchema,
+};
+
+export function registerSetProperties(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_set_properties",
+    "Add tags and set frontmatter properties on a note. Existing values are only replaced with overwrite. Use to classify or update the status of a memory",
+    schema,
+    async ({ note, tags, properties, overwrite, dryRun }) => {
+      const resolved = resolveNoteArg(note);
+      if ("error" in resolved) {
+        return { content: [{ type: "text" as const, text: resolved.error }] };
+      }
+
+      const result = await setProperties(resolved.path, { tags, properties, overwrite, dryRun });
+      return { content: [{ type: "text" as const, text: describeWrite(result) }] };
+    }
+  );
+}
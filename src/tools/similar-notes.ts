@@ -0,0 +1,46 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { PROXIMITY_DEPTH, similarNotes } from "../search.js";
+import { noteFilterSchema, toNoteFilter } from "./filter-schema.js";
+import { resolveNoteArg } from "./resolve-note.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  note: z.string().describe("Note name, vault path or alias"),
+  excludeLinked: z.boolean().default(false).describe("Leave out notes already linked to or from this note"),
+  ...noteFilterSchema,
+  limit: z.number().min(1).max(50).default(10).describe("Maximum number of similar notes to return"),
+};
+
+export function registerSimilarNotes(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_similar_notes",
+    "Find notes whose content is about the same thing as a given note (TF-IDF cosine similarity, computed locally), whether or not they are linked. Shows how far apart each is in the graph. Use to find related notes without a link path — \"what else covers X?\"",
+    schema,
+    async (args) => {
+      const { note, excludeLinked, limit } = args;
+      const resolved = resolveNoteArg(note);
+      if ("error" in resolved) {
+        return { content: [{ type: "text" as const, text: resolved.error }] };
+      }
+
+      // Fetch extra so dropping linked notes still fills the limit
+      let similar = similarNotes(resolved.path, { filter: toNoteFilter(args), limit: excludeLinked ? undefined : limit });
+      if (excludeLinked) similar = similar.filter((s) => s.distance !== 1).slice(0, limit);
+      if (similar.length === 0) {
+        return { content: [{ type: "text" as const, text: `No notes with content similar to "${resolved.path}".` }] };
+      }
+
+      let text = `Notes similar to "${resolved.path}" (${similar.length}):\n\n`;
+      text += "| # | Note | Path | Similarity | Graph | Shared terms |\n";
+      text += "|---|------|------|------------|-------|--------------|\n";
+      similar.forEach((s, i) => {
+        const graph = s.distance === null ? `more than ${PROXIMITY_DEPTH} hops away or not connected` : s.distance === 1 ? "linked" : `${s.distance} hops`;
+        text += `| ${i + 1} | ${s.name} | ${s.path} | ${s.similarity.toFixed(3)} | ${graph} | ${s.sharedTerms.join(", ")} |\n`;
+      });
+
+      return { content: [{ type: "text" as const, text }] };
+    }
+  );
+}
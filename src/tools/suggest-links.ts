@@ -0,0 +1,94 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getGraph, nameFromPath } from "../graph.js";
+import { findUnlinkedMentions, suggestLinks, SUGGESTION_METHODS, type UnlinkedMention } from "../suggestions.js";
+import { resolveNoteArg } from "./resolve-note.js";
+import { registerVaultTool } from "./vault-param.js";
+
+const schema = {
+  note: z.string().optional().describe("Only suggest links to or from this note (name, vault path or alias); omit for the whole vault"),
+  kind: z.enum(["both", "links", "mentions"]).default("both").describe("links = unlinked notes with similar neighbourhoods; mentions = note names written as plain text; both = both"),
+  method: z.enum(SUGGESTION_METHODS).default("adamic-adar").describe(
+    "How to rank missing links: adamic-adar (shared neighbours, weighted towards rarely linked ones), common-neighbors (count of shared neighbours), shared-tags (count of shared tags)"
+  ),
+  limit: z.number().min(1).max(100).default(20).describe("Maximum number of suggestions of each kind"),
+};
+
+function formatScore(score: number): string {
+  return Number.isInteger(score) ? String(score) : score.toPrecision(3);
+}
+
+/** "A, B, C and 4 more" */
+function listNames(paths: string[], max = 5): string {
+  const names = paths.slice(0, max).map(nameFromPath).join(", ");
+  return paths.length > max ? `${names} and ${paths.length - max} more` : names;
+}
+
+export function registerSuggestLinks(server: McpServer) {
+  registerVaultTool(
+    server,
+    "graph_suggest_links",
+    "Suggest missing links: unlinked notes with overlapping neighbours or tags, and places where a note's name or alias is written as plain text without a link. Use to densify the graph — \"what should X link to?\"",
+    schema,
+    async ({ note, kind, method, limit }) => {
+      let notePath: string | undefined;
+      if (note) {
+        const resolved = resolveNoteArg(note);
+        if ("error" in resolved) {
+          return { content: [{ type: "text" as const, text: resolved.error }] };
+        }
+        notePath = resolved.path;
+      }
+      const scope = notePath ? ` for "${notePath}"` : "";
+      let text = "";
+
+      if (kind !== "mentions") {
+        const suggestions = suggestLinks(method, { note: notePath, limit });
+        if (suggestions.length === 0) {
+          text += `No missing links found${scope} by ${method}.\n\n`;
+        } else {
+          text += `Missing links${scope} by ${method} (${suggestions.length}):\n\n`;
+          suggestions.forEach((s, i) => {
+            // In single-note mode, show the other end first
+            const [a, b] = notePath && s.b === notePath ? [s.b, s.a] : [s.a, s.b];
+            text += notePath ? `${i + 1}. ${b}` : `${i + 1}. ${a} ↔ ${b}`;
+            text += ` (score ${formatScore(s.score)})\n`;
+            if (s.sharedNeighbors.length > 0) {
+              text += `   shared neighbours (${s.sharedNeighbors.length}): ${listNames(s.sharedNeighbors)}\n`;
+            }
+            if (s.sharedTags.length > 0) {
+              text += `   shared tags: ${s.sharedTags.map((t) => `#${t}`).join(", ")}\n`;
+            }
+          });
+          text += "\n";
+        }
+      }
+
+      if (kind !== "links") {
+        const mentions = findUnlinkedMentions({ note: notePath });
+        if (mentions.length === 0) {
+          text += `No unlinked mentions found${scope}.\n`;
+        } else {
+          // Group by the note-pair, most mentioned first
+          const groups = new Map<string, UnlinkedMention[]>();
+          for (const m of mentions) {
+            const key = `${m.source}\0${m.target}`;
+            if (!groups.has(key)) groups.set(key, []);
+            groups.get(key)!.push(m);
+          }
+          const sorted = [...groups.values()].sort((x, y) => y.length - x.length);
+          const shown = sorted.slice(0, limit);
+          text += `Unlinked mentions${scope} (${mentions.length} in ${groups.size} note${groups.size !== 1 ? "s" : ""}):\n\n`;
+          for (const group of shown) {
+            const { source, target } = group[0];
+            text += `**${getGraph().nodes.get(source)?.name ?? source}** (${source}) mentions ${target} without linking:\n`;
+            for (const m of group) text += `  - L${m.line} "${m.matched}": ${m.context}\n`;
+          }
+          if (sorted.length > shown.length) text += `\n...and ${sorted.length - shown.length} more notes (raise limit to see them)\n`;
+        }
+      }
+
+      return { content: [{ type: "text" as const, text: text.trimEnd() }] };
+    }
+  );
+}
@@ -0,0 +1,33 @@
+import { z, type ZodRawShape, type ZodTypeAny } from "zod";
+import type { McpServer, RegisteredTool, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { getVault, inVault } from "../vaults.js";
+
+/** The `vault` parameter every tool accepts. */
+export const vaultSchema = {
+  vault: z.string().optional().describe("Name of the vault to use (default: the first configured vault)"),
+};
+
+type VaultToolHandler<Args extends ZodRawShape> = (
+  args: z.objectOutputType<Args, ZodTypeAny>,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => CallToolResult | Promise<CallToolResult>;
+
+/**
+ * Register a tool that takes an optional `vault` on top of `schema` and runs
+ * `handler` in that vault. Tools that work across vaults declare `vault`
+ * themselves and register with `server.tool`.
+ */
+export function registerVaultTool<Args extends ZodRawShape>(
+  server: McpServer,
+  name: string,
+  description: string,
+  schema: Args,
+  handler: VaultToolHandler<Args>
+): RegisteredTool {
+  const run: ToolCallback<ZodRawShape> = ({ vault, ...args }, extra) =>
+    // The SDK has validated the arguments against `schema` plus `vault`
+    inVault(getVault(vault), () => handler(args as z.objectOutputType<Args, ZodTypeAny>, extra));
+  return server.tool<ZodRawShape>(name, description, { ...schema, ...vaultSchema }, run);
+}
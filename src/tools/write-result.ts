@@ -0,0 +1,19 @@
+import { z } from "zod";
+import type { WriteResult } from "../note-writer.js";
+
+/** Dry-run switch shared by the write tools. */
+export const dryRunSchema = {
+  dryRun: z.boolean().default(false).describe("Preview the change without writing anything"),
+};
+
+/** Describe what a write did, or would do on a dry run. */
+export function describeWrite(result: WriteResult): string {
+  if (result.unchanged) {
+    return `Nothing to change in ${result.path} — ${result.location === "frontmatter" ? "the values are already set" : `the link is already there (${result.location})`}.`;
+  }
+  const verb = result.created
+    ? result.dryRun ? "Would create" : "Created"
+    : result.dryRun ? "Would update" : "Updated";
+  const where = result.created ? "" : ` (${result.location})`;
+  return `${verb} ${result.path}${where}:\n\n${result.preview.replace(/\n*$/, "")}`;
+}
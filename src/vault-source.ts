@@ -0,0 +1,77 @@
+/**
+ * Vault source abstraction.
+ * The graph engine reads notes through this interface so it does not care
+ * whether they come from the Local REST API or straight from disk.
+ */
+
+import { createRestVaultSource } from "./obsidian-api.js";
+import { createFilesystemVaultSource } from "./filesystem-vault.js";
+import { currentVault, type VaultConfig } from "./vaults.js";
+
+/** A note as reported by a vault listing. mtime/size are set when the source knows them cheaply. */
+export interface NoteMeta {
+  path: string;
+  mtime?: number;
+  size?: number;
+}
+
+/** A note or folder that could not be read, and why. Folder paths end with "/". */
+export interface ReadFailure {
+  path: string;
+  reason: string;
+}
+
+/** Every note found. Folders that could not be listed are in `failed`; notes under them are left as they were. */
+export interface NoteListing {
+  notes: NoteMeta[];
+  failed: ReadFailure[];
+}
+
+/** Whether the vault can be reached right now. */
+export interface ConnectionCheck {
+  ok: boolean;
+  authenticated?: boolean;  // REST only: whether the API key was accepted
+  detail: string;           // "Obsidian Local REST API 3.0.1", or why it failed
+  latencyMs: number;
+}
+
+/**
+ * A change to part of a note that leaves the rest of it alone: text appended
+ * at the end, text appended to a heading's section (`heading` lists the
+ * heading and its parents, outermost first), or one frontmatter property set.
+ */
+export type NoteEdit =
+  | { type: "append"; text: string }
+  | { type: "heading"; heading: string[]; text: string }
+  | { type: "property"; key: string; value: unknown };
+
+export interface VaultSource {
+  /** Short description for log output, e.g. "rest (http://localhost:27123)". */
+  readonly description: string;
+  /** List all markdown notes by vault-relative path. Throws only when the vault itself can't be listed. */
+  listAllNotes(): Promise<NoteListing>;
+  /** Read a note's content by vault-relative path. */
+  readNote(path: string): Promise<string>;
+  /** Whether a file exists at a vault-relative path. Sources without it are read-only. */
+  noteExists?(path: string): Promise<boolean>;
+  /** Create or replace a note by vault-relative path, creating folders as needed. */
+  writeNote?(path: string, content: string): Promise<void>;
+  /** Apply an edit to an existing note in place, so concurrent edits to the rest of it are kept. */
+  editNote?(path: string, edit: NoteEdit): Promise<void>;
+  /** Check that the vault is reachable (and, for REST, that the API key works). Never throws. */
+  checkConnection(): Promise<ConnectionCheck>;
+}
+
+/**
+ * Create a vault's source: the filesystem backend when it has a `path`,
+ * otherwise the REST API.
+ */
+export function createVaultSource(config: VaultConfig): VaultSource {
+  if (config.path) return createFilesystemVaultSource(config.path);
+  return createRestVaultSource(config);
+}
+
+/** Source of the vault the current call runs in. */
+export function getVaultSource(): VaultSource {
+  return currentVault().source;
+}
@@ -0,0 +1,192 @@
+/**
+ * Named vaults. One server can serve several vaults, each with its own
+ * source, graph, indexes, refresh schedule and snapshot.
+ *
+ * Work always runs "in" a vault: modules keep their state per vault with
+ * vaultState(), and the vault in effect follows async calls, so a tool call
+ * or a build only ever sees its own vault. Outside of inVault() the default
+ * (first) vault is used.
+ *
+ * GRAPH_VAULTS configures several vaults as a JSON object keyed by name:
+ *   {"work": {"host": "http://localhost:27123", "apiKey": "…"}, "personal": {"path": "/vaults/personal"}}
+ * Without it there is one vault, "default", configured by OBSIDIAN_HOST,
+ * OBSIDIAN_API_KEY, OBSIDIAN_VAULT_PATH and GRAPH_CACHE_PATH. The REST client
+ * settings (OBSIDIAN_TIMEOUT, OBSIDIAN_RETRIES, OBSIDIAN_CA_CERT,
+ * OBSIDIAN_TLS_INSECURE), GRAPH_READ_CONCURRENCY and the refresh interval
+ * (see getRefreshInterval) apply to every vault that does not set its own.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { z } from "zod";
+import { durationSchema, getConfig } from "./config.js";
+import { createVaultSource, type VaultSource } from "./vault-source.js";
+
+export interface VaultConfig {
+  name: string;
+  host: string;             // Local REST API URL
+  apiKey: string;
+  path?: string;            // read from this directory instead of the REST API
+  refreshInterval?: number; // ms; unset → the config file's, else GRAPH_REFRESH_INTERVAL
+  cachePath?: string;       // graph snapshot file
+  timeout: number;          // ms per REST request
+  retries: number;          // extra attempts after a failed REST request
+  concurrency: number;      // notes read at once
+  caCert?: string;          // PEM file of a certificate to trust, e.g. the plugin's self-signed one
+  insecureTls: boolean;     // accept any HTTPS certificate
+}
+
+export interface Vault {
+  config: VaultConfig;
+  source: VaultSource;
+  state: Map<string, unknown>;  // per-vault module state, see vaultState()
+}
+
+const DEFAULT_HOST = "http://localhost:27123";
+const DEFAULT_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_TIMEOUT = 10 * 1000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_CONCURRENCY = 20;
+
+const vaultConfigSchema = z.object({
+  host: z.string().url().optional(),
+  apiKey: z.string().optional(),
+  path: z.string().min(1).optional(),
+  refreshInterval: durationSchema.optional(),
+  cachePath: z.string().min(1).optional(),
+  timeout: durationSchema.optional(),
+  retries: z.number().int().min(0).max(10).optional(),
+  concurrency: z.number().int().min(1).max(100).optional(),
+  caCert: z.string().min(1).optional(),
+  insecureTls: z.boolean().optional(),
+}).strict();
+
+const vaultsSchema = z.record(z.string().min(1), vaultConfigSchema)
+  .refine((vaults) => Object.keys(vaults).length > 0, "at least one vault is needed");
+
+/** A duration durationSchema accepted → milliseconds; unset gives `fallback` (5 minutes). */
+function parseInterval(value: string | undefined, fallback = DEFAULT_INTERVAL): number {
+  if (!value) return fallback;
+  const match = value.match(/^(\d+)(ms|s|m|h)$/);
+  if (!match) return fallback;
+  const num = parseInt(match[1], 10);
+  switch (match[2]) {
+    case "ms": return num;
+    case "s": return num * 1000;
+    case "m": return num * 60 * 1000;
+    case "h": return num * 60 * 60 * 1000;
+    default: return fallback;
+  }
+}
+
+/** A duration ("30s", "5m", "1h") from an environment variable, in milliseconds. */
+export function parseDuration(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) return fallback;
+  if (!durationSchema.safeParse(value).success) {
+    throw new Error(`Invalid ${name} "${value}" (expected a duration like 30s, 5m or 1h)`);
+  }
+  return parseInterval(value, fallback);
+}
+
+/** A whole number from an environment variable, within [min, max]. */
+function parseCount(name: string, fallback: number, min: number, max: number): number {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const num = Number(value);
+  if (!Number.isInteger(num) || num < min || num > max) {
+    throw new Error(`Invalid ${name} "${value}" (expected a whole number from ${min} to ${max})`);
+  }
+  return num;
+}
+
+function readConfigs(): VaultConfig[] {
+  const env = process.env;
+  const client = {
+    timeout: parseDuration("OBSIDIAN_TIMEOUT", DEFAULT_TIMEOUT),
+    retries: parseCount("OBSIDIAN_RETRIES", DEFAULT_RETRIES, 0, 10),
+    concurrency: parseCount("GRAPH_READ_CONCURRENCY", DEFAULT_CONCURRENCY, 1, 100),
+    caCert: env.OBSIDIAN_CA_CERT || undefined,
+    insecureTls: env.OBSIDIAN_TLS_INSECURE === "true",
+  };
+  const json = env.GRAPH_VAULTS;
+  if (!json) {
+    return [{
+      name: "default",
+      host: env.OBSIDIAN_HOST || DEFAULT_HOST,
+      apiKey: env.OBSIDIAN_API_KEY || "",
+      path: env.OBSIDIAN_VAULT_PATH || undefined,
+      cachePath: env.GRAPH_CACHE_PATH || undefined,
+      ...client,
+    }];
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new Error(`GRAPH_VAULTS is not valid JSON: ${(err as Error).message}`);
+  }
+  const parsed = vaultsSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`);
+    throw new Error(`Invalid GRAPH_VAULTS — ${issues.join("; ")}`);
+  }
+  return Object.entries(parsed.data).map(([name, vault]) => ({
+    name,
+    host: vault.host || DEFAULT_HOST,
+    apiKey: vault.apiKey || "",
+    path: vault.path,
+    refreshInterval: vault.refreshInterval ? parseInterval(vault.refreshInterval) : undefined,
+    cachePath: vault.cachePath,
+    timeout: parseInterval(vault.timeout, client.timeout),
+    retries: vault.retries ?? client.retries,
+    concurrency: vault.concurrency ?? client.concurrency,
+    caCert: vault.caCert ?? client.caCert,
+    insecureTls: vault.insecureTls ?? client.insecureTls,
+  }));
+}
+
+let vaults: Vault[] | null = null;
+const storage = new AsyncLocalStorage<Vault>();
+
+/** How often a vault refreshes: its own interval, else the config file's, else GRAPH_REFRESH_INTERVAL (default 5 minutes). */
+export function getRefreshInterval(vault: Vault): number {
+  const configured = getConfig().refresh.interval;
+  return vault.config.refreshInterval ?? (configured ? parseInterval(configured) : parseDuration("GRAPH_REFRESH_INTERVAL", DEFAULT_INTERVAL));
+}
+
+/** All configured vaults, the default first. */
+export function getVaults(): Vault[] {
+  if (!vaults) {
+    vaults = readConfigs().map((config) => ({ config, source: createVaultSource(config), state: new Map() }));
+  }
+  return vaults;
+}
+
+/** A vault by name (case-insensitive), or the default one. */
+export function getVault(name?: string): Vault {
+  const all = getVaults();
+  if (name === undefined) return all[0];
+  const vault = all.find((v) => v.config.name.toLowerCase() === name.toLowerCase());
+  if (!vault) {
+    throw new Error(`Unknown vault "${name}" — configured vaults: ${all.map((v) => v.config.name).join(", ")}`);
+  }
+  return vault;
+}
+
+/** The vault the current call runs in. */
+export function currentVault(): Vault {
+  return storage.getStore() ?? getVault();
+}
+
+/** Run `fn` (and everything it awaits) in a vault. */
+export function inVault<T>(vault: Vault, fn: () => T): T {
+  return storage.run(vault, fn);
+}
+
+/** Module state kept per vault, created on first use. */
+export function vaultState<T>(key: string, init: () => T): T {
+  const { state } = currentVault();
+  if (!state.has(key)) state.set(key, init());
+  return state.get(key) as T;
+}